@@ -5,13 +5,749 @@
  * Command-line interface for Audiobookshelf with Google Cast support.
  */
 
-import { parseCLI, getHelpText, getVersion } from '../lib/cli.js';
-import { loadConfig, saveConfig, Config } from '../lib/config.js';
-import { AudiobookshelfClient } from '../lib/client.js';
+import {
+  parseCLI,
+  getHelpText,
+  getVersion,
+  type CLIArgs,
+  type CLIResult,
+} from '../lib/cli.js';
+import {
+  getStreamSecret,
+  loadConfig,
+  readConfigFile,
+  saveConfig,
+  updateConfig,
+  Config,
+} from '../lib/config.js';
+import { AudiobookshelfClient, type ItemListOptions } from '../lib/client.js';
 import { CastController } from '../lib/cast.js';
-import type { CastDevice } from '../lib/types.js';
-import { SleepTimer } from '../lib/sleep-timer.js';
+import type {
+  AuthTokens,
+  Book,
+  CastDevice,
+  ListeningSession,
+  LoginResult,
+  PodcastEpisode,
+  Progress,
+  SearchResults,
+} from '../lib/types.js';
+import {
+  AmbiguousMatchError,
+  looksLikeItemId,
+  selectBook,
+  type MatchCandidate,
+} from '../lib/match.js';
 import { getDeviceCache } from '../cast/device-cache.js';
+import { DaemonClient, launchDaemon } from '../daemon/client.js';
+import { getSocketPath, type PlaybackStatus, type QueueItem } from '../daemon/protocol.js';
+import { formatDuration, formatTime, parseSeekTarget } from '../lib/time.js';
+import { readPassword } from '../lib/prompt.js';
+import { parseItemFilter, SORT_FIELDS, type ItemFilter } from '../lib/listing.js';
+import {
+  getPeriodStart,
+  summariseListening,
+  toDateKey,
+  type StatsPeriod,
+} from '../lib/stats.js';
+
+/**
+ * Status reported when no playback daemon is running
+ */
+const INACTIVE_STATUS: PlaybackStatus = {
+  playback: {
+    active: false,
+    device: null,
+    bookId: null,
+    episodeId: null,
+    title: null,
+    chapter: null,
+    sessionId: null,
+    state: null,
+    position: 0,
+    speed: 1.0,
+    duration: 0,
+    queued: 0,
+  },
+  sleepTimer: {
+    active: false,
+    phase: 'inactive',
+    remainingSeconds: 0,
+  },
+};
+
+/**
+ * Get a client for the playback daemon
+ * @param launch - Start the daemon in the background if it is not running
+ * @returns The client, or null if the daemon is not running and launch is false
+ */
+async function getDaemon(launch: true): Promise<DaemonClient>;
+async function getDaemon(launch: false): Promise<DaemonClient | null>;
+async function getDaemon(launch: boolean): Promise<DaemonClient | null> {
+  const daemon = new DaemonClient();
+  if (await daemon.isRunning()) {
+    return daemon;
+  }
+  if (!launch) {
+    return null;
+  }
+  console.log('Starting playback daemon...');
+  return launchDaemon({ scriptPath: process.argv[1] });
+}
+
+/**
+ * Resolve a Cast device by name, using the device cache before discovery
+ */
+async function resolveDevice(deviceName: string): Promise<CastDevice> {
+  const deviceCache = getDeviceCache();
+  const cached = deviceCache.get(deviceName);
+  if (cached) {
+    console.log(`Using cached device: ${cached.name} (${cached.host}:${String(cached.port)})`);
+    return cached;
+  }
+
+  // Not in cache - do a full discovery with longer timeout
+  console.log('Discovering Cast devices (this may take up to 20s on slow networks)...');
+  const devices = await new CastController().discoverDevices({ timeout: 20000 });
+  deviceCache.update(devices);
+  const device = devices.find(d => d.name.toLowerCase().includes(deviceName.toLowerCase()));
+
+  if (!device) {
+    console.error(`Error: Device "${deviceName}" not found.`);
+    console.error('Available devices:', devices.map(d => d.name).join(', ') || 'none');
+    process.exit(1);
+  }
+  return device;
+}
+
+/** Page size for `abs books --page` without --limit */
+const DEFAULT_BOOKS_PAGE_SIZE = 50;
+
+/**
+ * Resolve an author or series filter from a name to the ID the server expects
+ *
+ * @returns The filter to send, or null if the library has no such author or series
+ */
+async function resolveItemFilter(
+  client: AudiobookshelfClient,
+  libraryId: string,
+  filter: ItemFilter
+): Promise<ItemFilter | null> {
+  if (filter.group !== 'authors' && filter.group !== 'series') {
+    return filter;
+  }
+
+  const results = await client.search(filter.value, libraryId);
+  const candidates = filter.group === 'authors' ? results.authors : results.series;
+  const name = filter.value.toLowerCase();
+  const match =
+    candidates.find((candidate) => candidate.name.toLowerCase() === name) ??
+    (candidates.length === 1 ? candidates[0] : undefined);
+  return match ? { group: filter.group, value: match.id } : null;
+}
+
+/**
+ * List books in a library honouring --sort, --desc, --filter, --limit and --page
+ */
+async function listBooks(
+  client: AudiobookshelfClient,
+  libraryId: string,
+  args: CLIArgs,
+  desc: boolean
+): Promise<Book[]> {
+  const parsedFilter = args.filter ? parseItemFilter(args.filter) : null;
+  const filter = parsedFilter ? await resolveItemFilter(client, libraryId, parsedFilter) : null;
+  if (parsedFilter && !filter) {
+    return [];
+  }
+
+  const options: ItemListOptions = {
+    sort: args.sort ? SORT_FIELDS[args.sort] : undefined,
+    desc,
+    filter: filter ?? undefined,
+  };
+
+  if (args.page !== undefined) {
+    const pageSize = args.limit ?? DEFAULT_BOOKS_PAGE_SIZE;
+    return (await client.getItemsPage(libraryId, args.page - 1, { ...options, pageSize })).books;
+  }
+
+  const books: Book[] = [];
+  const pageSize = args.limit !== undefined ? Math.min(args.limit, 100) : undefined;
+  for await (const book of client.iterateItems(libraryId, { ...options, pageSize })) {
+    books.push(book);
+    if (args.limit !== undefined && books.length >= args.limit) {
+      break;
+    }
+  }
+  return books;
+}
+
+/**
+ * Print search results grouped by kind, skipping empty groups
+ */
+function printSearchResults(results: SearchResults): void {
+  const sections: [string, string[]][] = [
+    [
+      'Books',
+      results.books.map((book) => {
+        const author = book.author ? ` by ${book.author}` : '';
+        return `${book.title}${author} (${book.id})`;
+      }),
+    ],
+    [
+      'Podcasts',
+      results.podcasts.map(
+        (podcast) => `${podcast.title} - ${String(podcast.numEpisodes)} episodes (${podcast.id})`
+      ),
+    ],
+    [
+      'Authors',
+      results.authors.map((author) => `${author.name} - ${String(author.numBooks)} books`),
+    ],
+    [
+      'Series',
+      results.series.map((series) => `${series.name} - ${String(series.books.length)} books`),
+    ],
+    [
+      'Narrators',
+      results.narrators.map(
+        (narrator) => `${narrator.name} - ${String(narrator.numBooks)} books`
+      ),
+    ],
+    ['Tags', results.tags.map((tag) => `${tag.name} - ${String(tag.numItems)} items`)],
+  ];
+
+  const nonEmpty = sections.filter(([, lines]) => lines.length > 0);
+  if (nonEmpty.length === 0) {
+    console.log('No results found.');
+    return;
+  }
+
+  console.log(
+    nonEmpty
+      .map(([heading, lines]) => [`${heading}:`, ...lines.map((line) => `  • ${line}`)].join('\n'))
+      .join('\n\n')
+  );
+}
+
+/**
+ * Pick one search result by title
+ *
+ * Exits with a ranked candidate list when the title is ambiguous.
+ */
+function selectByTitle<T extends MatchCandidate>(query: string, candidates: T[], first: boolean): T {
+  try {
+    const match = selectBook(query, candidates, { first });
+    console.log(`Found "${match.title}"${match.author ? ` by ${match.author}` : ''}`);
+    return match;
+  } catch (error) {
+    if (error instanceof AmbiguousMatchError) {
+      console.error(`Error: ${error.message}. Use the item ID, a more specific title, or --first:`);
+      error.candidates.slice(0, 10).forEach(({ book }, index) => {
+        const author = book.author ? ` by ${book.author}` : '';
+        console.error(`  ${String(index + 1)}. ${book.title}${author} (${book.id})`);
+      });
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a book title or item ID to an item ID
+ */
+async function resolveBookId(
+  client: AudiobookshelfClient,
+  query: string,
+  first: boolean
+): Promise<string> {
+  if (looksLikeItemId(query)) {
+    return query;
+  }
+  return selectByTitle(query, (await client.search(query)).books, first).id;
+}
+
+/**
+ * Resolve a podcast title or item ID to an item ID
+ */
+async function resolvePodcastId(
+  client: AudiobookshelfClient,
+  query: string,
+  first: boolean
+): Promise<string> {
+  if (looksLikeItemId(query)) {
+    return query;
+  }
+  return selectByTitle(query, (await client.search(query)).podcasts, first).id;
+}
+
+/**
+ * Resolve a podcast title or ID and an --episode selector to an episode
+ */
+async function resolveEpisode(
+  client: AudiobookshelfClient,
+  query: string,
+  selector: string,
+  first: boolean
+): Promise<{ podcastId: string; episode: PodcastEpisode }> {
+  const podcastId = await resolvePodcastId(client, query, first);
+  const episodes = await client.getPodcastEpisodes(podcastId);
+  const number = selector === 'latest' ? 1 : parseInt(selector, 10);
+  if (number > episodes.length) {
+    console.error(
+      `Error: Episode ${String(number)} out of range (podcast has ${String(episodes.length)} episodes)`
+    );
+    process.exit(1);
+  }
+  return { podcastId, episode: episodes[number - 1] };
+}
+
+/**
+ * Pick a collection or playlist by ID or name
+ */
+function selectByName<T extends { id: string; name: string }>(
+  query: string,
+  items: T[],
+  first: boolean
+): T {
+  return (
+    items.find((item) => item.id === query) ??
+    selectByTitle(
+      query,
+      items.map((item) => ({ ...item, title: item.name })),
+      first
+    )
+  );
+}
+
+/**
+ * Pick an entry of a collection or playlist by ID or title
+ */
+function selectEntry<T extends MatchCandidate>(query: string, entries: T[], first: boolean): T {
+  return entries.find((entry) => entry.id === query) ?? selectByTitle(query, entries, first);
+}
+
+/**
+ * Pick the library for a new collection or playlist
+ *
+ * Uses --library if given, otherwise the only suitable library.
+ */
+async function resolveLibraryId(
+  client: AudiobookshelfClient,
+  libraryId: string | undefined,
+  booksOnly: boolean
+): Promise<string> {
+  if (libraryId) {
+    return libraryId;
+  }
+  const libraries = (await client.getLibraries()).filter(
+    (library) => !booksOnly || library.mediaType === 'book'
+  );
+  if (libraries.length !== 1) {
+    console.error(
+      libraries.length === 0
+        ? 'Error: No suitable library found'
+        : 'Error: Several libraries found. Use --library <id> to pick one.'
+    );
+    process.exit(2);
+  }
+  return libraries[0].id;
+}
+
+/**
+ * Resolve a series name or ID to a series ID
+ */
+async function resolveSeriesId(
+  client: AudiobookshelfClient,
+  query: string,
+  first: boolean
+): Promise<string> {
+  if (looksLikeItemId(query)) {
+    return query;
+  }
+  const series = (await client.search(query)).series.map((result) => ({
+    id: result.id,
+    title: result.name,
+  }));
+  return selectByTitle(query, series, first).id;
+}
+
+/**
+ * IDs of the books the user has finished (podcast episodes are ignored)
+ */
+function getFinishedBookIds(progress: Progress[]): Set<string> {
+  return new Set(
+    progress.filter((entry) => entry.isFinished && !entry.episodeId).map((entry) => entry.bookId)
+  );
+}
+
+/**
+ * Format an episode line for `abs episodes`
+ */
+function formatEpisode(episode: PodcastEpisode, number: number): string {
+  const published = episode.publishedAt
+    ? new Date(episode.publishedAt).toISOString().slice(0, 10)
+    : 'unknown date';
+  return `  ${String(number)}. ${episode.title} (${published}, ${formatTime(episode.duration)})`;
+}
+
+/**
+ * Start a book or podcast episode on a device through the playback daemon
+ */
+async function startPlayback(
+  bookId: string,
+  deviceName: string | undefined,
+  episodeId?: string,
+  queue?: QueueItem[]
+): Promise<void> {
+  if (!deviceName) {
+    console.error('Error: No device specified. Use --device or set a default device.');
+    process.exit(2);
+  }
+
+  const device = await resolveDevice(deviceName);
+  const daemon = await getDaemon(true);
+  console.log(`Starting playback on ${device.name}...`);
+  const status = await daemon.send({ command: 'play', bookId, episodeId, device, queue });
+  console.log(`Now playing "${String(status.playback.title)}" on ${device.name} (session: ${String(status.playback.sessionId)})`);
+  if (status.playback.chapter) {
+    console.log(`Chapter ${String(status.playback.chapter.number)}: ${status.playback.chapter.title}`);
+  }
+  console.log(`Position: ${formatTime(status.playback.position)}`);
+}
+
+/**
+ * Print playback status in human-readable form
+ */
+function printStatus(status: PlaybackStatus): void {
+  const { playback, sleepTimer } = status;
+  console.log('Playback Status:');
+  if (playback.active) {
+    console.log('  Active: Yes');
+    console.log(`  Device: ${String(playback.device)}`);
+    console.log(`  Book: ${playback.title ?? String(playback.bookId)}`);
+    if (playback.chapter) {
+      console.log(`  Chapter: ${String(playback.chapter.number)}. ${playback.chapter.title}`);
+    }
+    console.log(`  State: ${playback.state ?? 'UNKNOWN'}`);
+    const duration = playback.duration > 0 ? ` / ${formatTime(playback.duration)}` : '';
+    console.log(`  Position: ${formatTime(playback.position)}${duration}`);
+    if (playback.speed !== 1) {
+      console.log(`  Speed: ${String(playback.speed)}x`);
+    }
+    if (playback.queued > 0) {
+      console.log(`  Up next: ${String(playback.queued)} queued`);
+    }
+  } else {
+    console.log('  Active: No');
+  }
+  console.log('\nSleep Timer:');
+  if (sleepTimer.active) {
+    console.log(`  Active: Yes (${formatTime(sleepTimer.remainingSeconds)} remaining)`);
+  } else {
+    console.log('  Active: No');
+  }
+}
+
+/**
+ * Log in with a password read from ABS_PASSWORD or the terminal
+ */
+async function logIn(server: string, username: string, timeout?: number): Promise<LoginResult> {
+  const password = process.env.ABS_PASSWORD ?? (await readPassword('Password: '));
+  return new AudiobookshelfClient({ url: server, apiKey: '', timeout }).login(username, password);
+}
+
+/**
+ * Handle `abs profile list|use|add|remove`
+ *
+ * Works on the config file directly, so it runs even when the active
+ * profile is missing or incomplete.
+ */
+async function runProfileCommand(result: CLIResult): Promise<void> {
+  const fileConfig = await readConfigFile();
+  const profiles = fileConfig.profiles ?? {};
+  const name = result.args.name ?? '';
+
+  switch (result.subcommand) {
+    case 'list': {
+      const active = result.config.profile ?? fileConfig.activeProfile;
+      const names = Object.keys(profiles);
+      if (result.flags.json) {
+        console.log(
+          JSON.stringify(
+            names.map((profile) => ({
+              name: profile,
+              url: profiles[profile].url ?? fileConfig.url,
+              active: profile === active,
+            })),
+            null,
+            2
+          )
+        );
+      } else if (names.length === 0) {
+        console.log('No profiles configured. Add one with "abs profile add <name> --user <user>".');
+      } else {
+        for (const profile of names) {
+          const url = profiles[profile].url ?? fileConfig.url;
+          console.log(`${profile === active ? '*' : ' '} ${profile}${url ? ` (${url})` : ''}`);
+        }
+      }
+      break;
+    }
+
+    case 'use': {
+      if (!(name in profiles)) {
+        console.error(`Error: Unknown profile: ${name}`);
+        process.exit(1);
+      }
+      await saveConfig({ ...fileConfig, activeProfile: name });
+      console.log(`Active profile: ${name}`);
+      break;
+    }
+
+    case 'add': {
+      const server = result.args.server ?? fileConfig.url;
+      if (!server) {
+        console.error('Error: --server <url> is required when no server is configured');
+        process.exit(2);
+      }
+
+      const tokens: AuthTokens = result.args.token
+        ? { token: result.args.token }
+        : await logIn(server, result.args.user ?? '', fileConfig.timeout);
+      await updateConfig(
+        { url: server, apiKey: tokens.token, refreshToken: tokens.refreshToken },
+        name
+      );
+      console.log(`Profile "${name}" saved.`);
+      if (fileConfig.activeProfile !== name) {
+        console.log(`Switch to it with "abs profile use ${name}" or use --profile ${name}.`);
+      }
+      break;
+    }
+
+    case 'remove': {
+      if (!(name in profiles)) {
+        console.error(`Error: Unknown profile: ${name}`);
+        process.exit(1);
+      }
+      await saveConfig({
+        ...fileConfig,
+        profiles: Object.fromEntries(Object.entries(profiles).filter(([key]) => key !== name)),
+        activeProfile: fileConfig.activeProfile === name ? undefined : fileConfig.activeProfile,
+      });
+      console.log(`Profile "${name}" removed.`);
+      break;
+    }
+  }
+}
+
+/**
+ * Handle `abs collection list|create|add|remove|delete`
+ */
+async function runCollectionCommand(
+  client: AudiobookshelfClient,
+  result: CLIResult
+): Promise<void> {
+  const first = result.flags.first ?? false;
+  const name = result.args.name ?? '';
+
+  if (result.subcommand === 'create') {
+    const libraryId = await resolveLibraryId(client, result.args.library, true);
+    const collection = await client.createCollection(libraryId, name);
+    console.log(`Created collection "${collection.name}" (${collection.id})`);
+    return;
+  }
+
+  const collections = await client.getCollections();
+  if (result.subcommand === 'list') {
+    if (result.flags.json) {
+      console.log(JSON.stringify(collections, null, 2));
+    } else if (collections.length === 0) {
+      console.log('No collections found.');
+    } else {
+      console.log('Collections:');
+      for (const collection of collections) {
+        console.log(
+          `  • ${collection.name} - ${String(collection.books.length)} books (${collection.id})`
+        );
+      }
+    }
+    return;
+  }
+
+  const collection = selectByName(name, collections, first);
+  switch (result.subcommand) {
+    case 'add': {
+      const bookId = await resolveBookId(client, result.args.id ?? '', first);
+      await client.addToCollection(collection.id, bookId);
+      console.log(`Added to collection "${collection.name}"`);
+      break;
+    }
+
+    case 'remove': {
+      const book = selectEntry(result.args.id ?? '', collection.books, first);
+      await client.removeFromCollection(collection.id, book.id);
+      console.log(`Removed "${book.title}" from collection "${collection.name}"`);
+      break;
+    }
+
+    case 'delete':
+      await client.deleteCollection(collection.id);
+      console.log(`Deleted collection "${collection.name}"`);
+      break;
+  }
+}
+
+/**
+ * Handle `abs playlist list|create|add|remove|delete`
+ */
+async function runPlaylistCommand(client: AudiobookshelfClient, result: CLIResult): Promise<void> {
+  const first = result.flags.first ?? false;
+  const name = result.args.name ?? '';
+
+  if (result.subcommand === 'create') {
+    const libraryId = await resolveLibraryId(client, result.args.library, false);
+    const playlist = await client.createPlaylist(libraryId, name);
+    console.log(`Created playlist "${playlist.name}" (${playlist.id})`);
+    return;
+  }
+
+  const playlists = await client.getPlaylists();
+  if (result.subcommand === 'list') {
+    if (result.flags.json) {
+      console.log(JSON.stringify(playlists, null, 2));
+    } else if (playlists.length === 0) {
+      console.log('No playlists found.');
+    } else {
+      console.log('Playlists:');
+      for (const playlist of playlists) {
+        console.log(
+          `  • ${playlist.name} - ${String(playlist.items.length)} items (${playlist.id})`
+        );
+      }
+    }
+    return;
+  }
+
+  const playlist = selectByName(name, playlists, first);
+  switch (result.subcommand) {
+    case 'add': {
+      const query = result.args.id ?? '';
+      if (result.args.episode === undefined) {
+        await client.addToPlaylist(playlist.id, await resolveBookId(client, query, first));
+      } else {
+        const { podcastId, episode } = await resolveEpisode(
+          client,
+          query,
+          result.args.episode,
+          first
+        );
+        await client.addToPlaylist(playlist.id, podcastId, episode.id);
+        console.log(`Episode: ${episode.title}`);
+      }
+      console.log(`Added to playlist "${playlist.name}"`);
+      break;
+    }
+
+    case 'remove': {
+      const entries = playlist.items.map((item) => ({ ...item, id: item.episodeId ?? item.bookId }));
+      const item = selectEntry(result.args.id ?? '', entries, first);
+      await client.removeFromPlaylist(playlist.id, item.bookId, item.episodeId);
+      console.log(`Removed "${item.title}" from playlist "${playlist.name}"`);
+      break;
+    }
+
+    case 'delete':
+      await client.deletePlaylist(playlist.id);
+      console.log(`Deleted playlist "${playlist.name}"`);
+      break;
+  }
+}
+
+/**
+ * Fetch listening sessions, most recent first, until they started before `since`
+ */
+async function getSessionsSince(
+  client: AudiobookshelfClient,
+  since: Date
+): Promise<ListeningSession[]> {
+  const sessions: ListeningSession[] = [];
+  for (let page = 0; ; page++) {
+    const result = await client.getListeningSessions({ page, pageSize: 100 });
+    sessions.push(...result.sessions);
+    if (
+      result.sessions.length === 0 ||
+      sessions.length >= result.total ||
+      result.sessions.some((session) => session.startedAt < since.getTime())
+    ) {
+      return sessions;
+    }
+  }
+}
+
+/**
+ * Handle `abs stats [--period week|month|year]`
+ */
+async function runStatsCommand(client: AudiobookshelfClient, result: CLIResult): Promise<void> {
+  const period = (result.args.period ?? 'week') as StatsPeriod;
+  const now = new Date();
+  const stats = await client.getListeningStats();
+  const sessions = await getSessionsSince(client, getPeriodStart(period, now));
+  const summary = summariseListening(stats, sessions, period, now);
+
+  if (result.flags.json) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+
+  console.log(`Listening since ${summary.since}:`);
+  console.log(`  Total: ${formatDuration(summary.totalTime)}`);
+  console.log(`  Today: ${formatDuration(summary.today)}`);
+  console.log(`  All time: ${formatDuration(summary.allTime)}`);
+
+  console.log(period === 'year' ? '\nBy month:' : '\nBy day:');
+  for (const entry of summary.breakdown) {
+    console.log(`  ${entry.label}  ${formatDuration(entry.seconds)}`);
+  }
+
+  if (summary.topItems.length > 0) {
+    console.log('\nMost listened:');
+    summary.topItems.forEach((item, index) => {
+      const author = item.author ? ` by ${item.author}` : '';
+      console.log(
+        `  ${String(index + 1)}. ${item.title}${author} - ${formatDuration(item.timeListened)}`
+      );
+    });
+  }
+}
+
+/**
+ * Handle `abs history [--limit <n>] [--page <n>]`
+ */
+async function runHistoryCommand(client: AudiobookshelfClient, result: CLIResult): Promise<void> {
+  const page = await client.getListeningSessions({
+    page: (result.args.page ?? 1) - 1,
+    pageSize: result.args.limit,
+  });
+
+  if (result.flags.json) {
+    console.log(JSON.stringify(page, null, 2));
+  } else if (page.sessions.length === 0) {
+    console.log('No listening sessions found.');
+  } else {
+    console.log('Recent listening:');
+    for (const session of page.sessions) {
+      const started = new Date(session.startedAt);
+      const time = `${String(started.getHours()).padStart(2, '0')}:${String(started.getMinutes()).padStart(2, '0')}`;
+      const author = session.author ? ` by ${session.author}` : '';
+      console.log(
+        `  • ${toDateKey(started)} ${time}  ${session.title}${author} - ${formatDuration(session.timeListened)} (at ${formatTime(session.currentTime)})`
+      );
+    }
+  }
+}
 
 async function main(): Promise<void> {
   const result = parseCLI(process.argv.slice(2));
@@ -34,7 +770,17 @@ async function main(): Promise<void> {
   }
 
   // Load configuration
-  const config = await loadConfig();
+  if (result.command === 'profile') {
+    await runProfileCommand(result);
+    process.exit(0);
+  }
+
+  const config = await loadConfig({ profile: result.config.profile });
+  if (config.activeProfile) {
+    // A playback daemon launched by this command inherits the profile, and
+    // the daemon socket path follows it so each profile has its own daemon
+    process.env.ABS_PROFILE = config.activeProfile;
+  }
 
   // Commands that don't need full config validation
   if (result.command === 'devices') {
@@ -73,11 +819,28 @@ async function main(): Promise<void> {
       console.error('Error: Device name required');
       process.exit(2);
     }
-    await saveConfig({ ...config, defaultDevice: name });
+    await updateConfig({ defaultDevice: name }, config.activeProfile);
     console.log(`Default device set to: ${name}`);
     process.exit(0);
   }
 
+  if (result.command === 'login') {
+    const server = result.args.server ?? config.url;
+    const username = result.args.user;
+    if (!server || !username) {
+      console.error('Error: --server <url> is required (or set ABS_SERVER)');
+      process.exit(2);
+    }
+
+    const login = await logIn(server, username, config.timeout);
+    await updateConfig(
+      { url: server, apiKey: login.token, refreshToken: login.refreshToken },
+      config.activeProfile
+    );
+    console.log(`Logged in to ${server} as ${login.username}`);
+    process.exit(0);
+  }
+
   // Validate config for API commands
   const validation = Config.validate(config);
   if (!validation.valid) {
@@ -85,7 +848,9 @@ async function main(): Promise<void> {
     for (const error of validation.errors) {
       console.error(`  • ${error}`);
     }
-    console.error('\nSet ABS_SERVER and ABS_TOKEN environment variables, or create ~/.config/abs/config.json');
+    console.error(
+      '\nRun "abs login --server <url> --user <name>", set ABS_SERVER and ABS_TOKEN, or create ~/.config/abs/config.json'
+    );
     process.exit(1);
   }
 
@@ -99,7 +864,15 @@ async function main(): Promise<void> {
   const client = new AudiobookshelfClient({
     url,
     apiKey,
+    refreshToken: config.refreshToken,
+    onTokenRefresh: async (tokens) => {
+      await updateConfig(
+        { apiKey: tokens.token, refreshToken: tokens.refreshToken },
+        config.activeProfile
+      );
+    },
     timeout: config.timeout,
+    retries: config.retries,
   });
 
   // Handle remaining commands
@@ -121,32 +894,25 @@ async function main(): Promise<void> {
 
     case 'books': {
       const libraryId = result.args.library;
-      if (!libraryId) {
-        // List all books from all libraries
-        const libraries = await client.getLibraries();
-        for (const lib of libraries) {
-          const books = await client.getBooks(lib.id);
-          if (result.flags.json) {
-            console.log(JSON.stringify(books, null, 2));
-          } else {
-            console.log(`\n${lib.name}:`);
-            for (const book of books) {
-              const author = book.author ? ` by ${book.author}` : '';
-              console.log(`  • ${book.title}${author} (${book.id})`);
-            }
-          }
-        }
-      } else {
-        const books = await client.getBooks(libraryId);
+      const libraries = libraryId
+        ? [{ id: libraryId, name: libraryId }]
+        : await client.getLibraries();
+
+      for (const lib of libraries) {
+        const books = await listBooks(client, lib.id, result.args, result.flags.desc ?? false);
         if (result.flags.json) {
           console.log(JSON.stringify(books, null, 2));
+          continue;
+        }
+
+        if (!libraryId) {
+          console.log(`\n${lib.name}:`);
         } else if (books.length === 0) {
           console.log('No books found in this library.');
-        } else {
-          for (const book of books) {
-            const author = book.author ? ` by ${book.author}` : '';
-            console.log(`  • ${book.title}${author} (${book.id})`);
-          }
+        }
+        for (const book of books) {
+          const author = book.author ? ` by ${book.author}` : '';
+          console.log(`  • ${book.title}${author} (${book.id})`);
         }
       }
       break;
@@ -158,154 +924,500 @@ async function main(): Promise<void> {
         console.error('Error: Search query required');
         process.exit(2);
       }
-      const books = await client.search(query);
+      const results = await client.search(query);
       if (result.flags.json) {
-        console.log(JSON.stringify(books, null, 2));
-      } else if (books.length === 0) {
-        console.log('No results found.');
+        console.log(JSON.stringify(results, null, 2));
       } else {
-        console.log('Search results:');
-        for (const book of books) {
-          const author = book.author ? ` by ${book.author}` : '';
-          console.log(`  • ${book.title}${author} (${book.id})`);
-        }
+        printSearchResults(results);
       }
       break;
     }
 
     case 'play': {
-      const bookId = result.args.id;
-      if (!bookId) {
-        console.error('Error: Book ID required');
+      const first = result.flags.first ?? false;
+      const device = result.args.device ?? config.defaultDevice;
+      if (result.args.playlist !== undefined) {
+        const playlist = selectByName(result.args.playlist, await client.getPlaylists(), first);
+        if (playlist.items.length === 0) {
+          console.log(`Playlist "${playlist.name}" is empty.`);
+          break;
+        }
+        const [item, ...queue] = playlist.items;
+        console.log(`Playlist "${playlist.name}": ${String(playlist.items.length)} items`);
+        await startPlayback(
+          item.bookId,
+          device,
+          item.episodeId,
+          queue.map(({ bookId, episodeId }) => ({ bookId, episodeId }))
+        );
+        break;
+      }
+
+      if (result.args.series !== undefined) {
+        const seriesId = await resolveSeriesId(client, result.args.series, first);
+        const books = await client.getSeriesBooks(seriesId);
+        const finished = result.flags.next
+          ? getFinishedBookIds(await client.getMediaProgress())
+          : new Set<string>();
+        const book = books.find((candidate) => !finished.has(candidate.id));
+        if (!book) {
+          console.log(
+            books.length === 0 ? 'Series has no books.' : 'Every book in this series is finished.'
+          );
+          break;
+        }
+        const sequence = book.sequence ? `Book ${book.sequence}: ` : '';
+        console.log(`${sequence}${book.title}`);
+        await startPlayback(book.id, device);
+        break;
+      }
+
+      const query = result.args.id;
+      if (!query) {
+        console.error('Error: Book title or ID required');
         process.exit(2);
       }
 
-      const deviceName = result.args.device ?? config.defaultDevice;
-      if (!deviceName) {
-        console.error('Error: No device specified. Use --device or set a default device.');
+      if (result.args.episode === undefined) {
+        await startPlayback(await resolveBookId(client, query, first), device);
+        break;
+      }
+
+      const { podcastId, episode } = await resolveEpisode(client, query, result.args.episode, first);
+      console.log(`Episode: ${episode.title}`);
+      await startPlayback(podcastId, device, episode.id);
+      break;
+    }
+
+    case 'episodes': {
+      const query = result.args.id;
+      if (!query) {
+        console.error('Error: Podcast title or ID required');
         process.exit(2);
       }
 
-      // Check cache first for the device
-      const cast = new CastController();
-      const deviceCache = getDeviceCache();
-      let device: CastDevice | null = deviceCache.get(deviceName);
-      
-      if (device) {
-        console.log(`Using cached device: ${device.name} (${device.host}:${String(device.port)})`);
+      const podcastId = await resolvePodcastId(client, query, result.flags.first ?? false);
+      const episodes = await client.getPodcastEpisodes(podcastId);
+      if (result.flags.json) {
+        console.log(JSON.stringify(episodes, null, 2));
+      } else if (episodes.length === 0) {
+        console.log('No episodes found.');
       } else {
-        // Not in cache - do a full discovery with longer timeout
-        console.log('Discovering Cast devices (this may take up to 20s on slow networks)...');
-        const devices = await cast.discoverDevices({ timeout: 20000 });
-        deviceCache.update(devices);
-        device = devices.find(d => d.name.toLowerCase().includes(deviceName.toLowerCase())) ?? null;
-        
-        if (!device) {
-          console.error(`Error: Device "${deviceName}" not found.`);
-          console.error('Available devices:', devices.map(d => d.name).join(', ') || 'none');
-          process.exit(1);
-        }
+        console.log('Episodes (newest first):');
+        episodes.forEach((episode, index) => {
+          console.log(formatEpisode(episode, index + 1));
+        });
       }
+      break;
+    }
 
-      console.log(`Connecting to ${device.name}...`);
-      await cast.connect(device);
+    case 'series': {
+      const libraryId = result.args.library;
+      const libraries = libraryId
+        ? [{ id: libraryId, name: libraryId }]
+        : (await client.getLibraries()).filter((lib) => lib.mediaType === 'book');
+      const finished = getFinishedBookIds(await client.getMediaProgress());
 
-      // Start session and get stream URL
-      const session = await client.startSession(bookId);
-      const streamUrl = client.getStreamUrl(bookId, { includeToken: true });
+      for (const lib of libraries) {
+        const series = (await client.getSeries(lib.id)).map((entry) => ({
+          ...entry,
+          finished: entry.books.filter((book) => finished.has(book.id)).length,
+        }));
+        if (result.flags.json) {
+          console.log(JSON.stringify(series, null, 2));
+          continue;
+        }
 
-      console.log(`Starting playback (session: ${session.id})...`);
-      await cast.castStream(streamUrl, {
-        title: `Book ${bookId}`,
-      });
+        if (!libraryId) {
+          console.log(`\n${lib.name}:`);
+        } else if (series.length === 0) {
+          console.log('No series found in this library.');
+        }
+        for (const entry of series) {
+          console.log(
+            `  • ${entry.name} - ${String(entry.finished)}/${String(entry.books.length)} finished (${entry.id})`
+          );
+        }
+      }
+      break;
+    }
 
-      console.log(`Now playing on ${device.name}`);
+    case 'finish':
+    case 'unfinish': {
+      const finished = result.command === 'finish';
+      const state = finished ? 'finished' : 'not finished';
+      const query = result.args.id ?? '';
+      const ids = query.split(' ');
+      if (ids.length > 1 && ids.every(looksLikeItemId)) {
+        await client.updateProgressBatch(ids.map((bookId) => ({ bookId, isFinished: finished })));
+        console.log(`Marked ${String(ids.length)} books as ${state}`);
+        break;
+      }
+
+      const bookId = await resolveBookId(client, query, result.flags.first ?? false);
+      await client.markFinished(bookId, finished);
+      console.log(`Marked as ${state}`);
       break;
     }
 
-    case 'pause': {
-      console.log('Pause command - Cast controller state not persisted yet.');
-      console.log('Use the cast device controls or stop the playback.');
+    case 'progress': {
+      const bookId = await resolveBookId(client, result.args.id ?? '', result.flags.first ?? false);
+      const reset = await client.resetProgress(bookId);
+      console.log(reset ? 'Progress reset.' : 'No progress to reset.');
       break;
     }
 
+    case 'collection':
+      await runCollectionCommand(client, result);
+      break;
+
+    case 'playlist':
+      await runPlaylistCommand(client, result);
+      break;
+
+    case 'stats':
+      await runStatsCommand(client, result);
+      break;
+
+    case 'history':
+      await runHistoryCommand(client, result);
+      break;
+
     case 'resume': {
-      console.log('Resume command - Cast controller state not persisted yet.');
-      console.log('Use "abs play <book-id>" to start playback.');
+      // Unpause the live playback if there is one
+      const daemon = await getDaemon(false);
+      const current = daemon ? await daemon.send({ command: 'status' }) : INACTIVE_STATUS;
+      if (daemon && current.playback.active) {
+        const status = await daemon.send({ command: 'resume' });
+        console.log(`Playback resumed at ${formatTime(status.playback.position)}.`);
+        break;
+      }
+
+      // Otherwise pick up the most recently listened book
+      const inProgress = await client.getItemsInProgress();
+      if (inProgress.length === 0) {
+        console.log('Nothing to resume. Use "abs play <book-id>" to start a book.');
+        break;
+      }
+      const latest = inProgress[0];
+      console.log(`Resuming "${latest.title}"...`);
+      await startPlayback(latest.id, result.args.device ?? config.defaultDevice, latest.episodeId);
       break;
     }
 
+    case 'pause':
     case 'stop': {
-      console.log('Stop command - Cast controller state not persisted yet.');
-      console.log('Use the cast device controls to stop playback.');
+      const daemon = await getDaemon(false);
+      if (!daemon) {
+        console.log('No active playback.');
+        break;
+      }
+      const status = await daemon.send({ command: result.command });
+      if (result.command === 'stop') {
+        console.log('Playback stopped and progress synced.');
+      } else {
+        console.log(`Playback paused at ${formatTime(status.playback.position)}.`);
+      }
       break;
     }
 
     case 'status': {
-      // Status shows current playback state
-      // This is a placeholder - full implementation needs Cast session persistence
-      const statusInfo = {
-        playback: {
-          active: false,
-          device: null,
-          book: null,
-          position: 0,
-          duration: 0,
-        },
-        sleepTimer: {
-          active: false,
-          remainingSeconds: 0,
-        },
-      };
-      
+      const daemon = await getDaemon(false);
+      const statusInfo = daemon ? await daemon.send({ command: 'status' }) : INACTIVE_STATUS;
+
       if (result.flags.json) {
         console.log(JSON.stringify(statusInfo, null, 2));
       } else {
-        console.log('Playback Status:');
-        console.log('  Active: No (Cast session persistence not implemented yet)');
-        console.log('\nSleep Timer:');
-        console.log('  Active: No');
-        console.log('\nNote: Full status requires OpenClaw integration for session persistence.');
+        printStatus(statusInfo);
       }
       break;
     }
 
     case 'sleep': {
+      const daemon = await getDaemon(false);
+      if (result.subcommand === 'status') {
+        const timer = (daemon ? await daemon.send({ command: 'status' }) : INACTIVE_STATUS).sleepTimer;
+        if (result.flags.json) {
+          console.log(JSON.stringify(timer, null, 2));
+        } else if (timer.active) {
+          console.log(`Sleep timer: ${formatTime(timer.remainingSeconds)} remaining (${timer.phase}).`);
+        } else {
+          console.log('Sleep timer status: No active timer.');
+        }
+        break;
+      }
+
       if (result.subcommand === 'cancel') {
+        if (daemon) {
+          await daemon.send({ command: 'sleep-cancel' });
+        }
         console.log('Sleep timer cancelled (if any was active).');
-      } else if (result.subcommand === 'status') {
-        console.log('Sleep timer status: No active timer.');
+        break;
+      }
+
+      const minutes = result.args.minutes;
+      if (!minutes) {
+        console.error('Error: Duration in minutes required');
+        process.exit(2);
+      }
+      if (!daemon) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+      await daemon.send({ command: 'sleep', minutes });
+      console.log(`Sleep timer set for ${String(minutes)} minutes.`);
+      break;
+    }
+
+    case 'seek': {
+      const target = parseSeekTarget(String(result.args.position));
+      if (!target) {
+        console.error(`Error: Invalid seek position: ${String(result.args.position)}`);
+        process.exit(2);
+      }
+      const daemon = await getDaemon(false);
+      if (!daemon) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+      const status = await daemon.send({ command: 'seek', target });
+      if (result.flags.json) {
+        console.log(JSON.stringify(status.playback, null, 2));
       } else {
-        const minutes = result.args.minutes;
-        const fadeSeconds = result.args.fade ?? 30;
-        if (!minutes) {
-          console.error('Error: Duration in minutes required');
-          process.exit(2);
+        const duration = status.playback.duration > 0 ? ` / ${formatTime(status.playback.duration)}` : '';
+        console.log(`Seeked to ${formatTime(status.playback.position)}${duration}`);
+      }
+      break;
+    }
+
+    case 'speed': {
+      const daemon = await getDaemon(false);
+      if (!daemon) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+      const speed = result.args.speed;
+      const status = await daemon.send(
+        speed === undefined ? { command: 'status' } : { command: 'speed', speed }
+      );
+      if (!status.playback.active) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+      if (result.flags.json) {
+        console.log(JSON.stringify({ speed: status.playback.speed }, null, 2));
+      } else {
+        console.log(`Speed: ${String(status.playback.speed)}x`);
+      }
+      break;
+    }
+
+    case 'chapter': {
+      const daemon = await getDaemon(false);
+      const current = daemon ? await daemon.send({ command: 'status' }) : INACTIVE_STATUS;
+      const bookId = current.playback.bookId;
+      if (!daemon || !bookId) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+
+      if (result.subcommand === 'list') {
+        // Episodes have their own chapters; number them by start time, as the daemon does
+        const episodeId = current.playback.episodeId;
+        const item = episodeId
+          ? (await client.getPodcastEpisodes(bookId)).find((episode) => episode.id === episodeId)
+          : await client.getItem(bookId);
+        const chapters = [...(item?.chapters ?? [])].sort((a, b) => a.start - b.start);
+        const currentNumber = current.playback.chapter?.number;
+        if (result.flags.json) {
+          console.log(JSON.stringify(chapters, null, 2));
+        } else if (!item || chapters.length === 0) {
+          console.log(episodeId ? 'This episode has no chapters.' : 'This book has no chapters.');
+        } else {
+          console.log(`Chapters of ${item.title}:`);
+          chapters.forEach((chapter, index) => {
+            const marker = index + 1 === currentNumber ? '▶' : '•';
+            console.log(`  ${marker} ${String(index + 1)}. ${chapter.title} (${formatTime(chapter.start)})`);
+          });
         }
-        console.log(`Sleep timer set for ${String(minutes)} minutes with ${String(fadeSeconds)}s fade.`);
-        console.log('Note: Timer runs in this process. For persistent timers, integrate with OpenClaw.');
-        
-        const timer = new SleepTimer({
-          onSyncProgress: () => {
-            console.log('Syncing progress...');
-            return Promise.resolve();
-          },
-          onExpire: () => {
-            console.log('Sleep timer expired. Fading out and stopping playback...');
-            process.exit(0);
-            // Note: process.exit never returns, but TypeScript doesn't know this
-            return Promise.resolve();
-          },
-        });
-        
-        timer.start(minutes);
-        console.log(`Timer active. Will expire in ${String(minutes)} minutes.`);
-        console.log(`Fade duration: ${String(fadeSeconds)} seconds`);
-        
-        // Keep process alive - using a never-resolving promise
-        await new Promise<never>(() => {
-          // Intentionally empty - keeps process alive
+        break;
+      }
+
+      const action = result.subcommand === 'goto' ? 'goto' : result.subcommand === 'prev' ? 'prev' : 'next';
+      const status = await daemon.send({ command: 'chapter', action, number: result.args.chapter });
+      const chapter = status.playback.chapter;
+      if (result.flags.json) {
+        console.log(JSON.stringify(chapter, null, 2));
+      } else if (chapter) {
+        console.log(`Now at chapter ${String(chapter.number)}: ${chapter.title}`);
+      }
+      break;
+    }
+
+    case 'bookmark': {
+      const daemon = await getDaemon(false);
+      const current = daemon ? await daemon.send({ command: 'status' }) : INACTIVE_STATUS;
+      const bookId = current.playback.bookId;
+      if (!daemon || !bookId) {
+        console.error('Error: No active playback. Use "abs play <book-id>" first.');
+        process.exit(1);
+      }
+      if (current.playback.episodeId) {
+        console.error('Error: Bookmarks are not supported for podcast episodes.');
+        process.exit(1);
+      }
+
+      if (result.subcommand === 'add') {
+        const time = Math.floor(current.playback.position);
+        const bookmark = await client.createBookmark(
+          bookId,
+          time,
+          result.args.title ?? `Bookmark at ${formatTime(time)}`
+        );
+        if (result.flags.json) {
+          console.log(JSON.stringify(bookmark, null, 2));
+        } else {
+          console.log(`Bookmarked "${bookmark.title}" at ${formatTime(bookmark.time)}`);
+        }
+        break;
+      }
+
+      const bookmarks = await client.getBookmarks(bookId);
+      if (result.subcommand === 'list') {
+        if (result.flags.json) {
+          console.log(JSON.stringify(bookmarks, null, 2));
+        } else if (bookmarks.length === 0) {
+          console.log('No bookmarks in this book.');
+        } else {
+          console.log(`Bookmarks in ${String(current.playback.title)}:`);
+          bookmarks.forEach((bookmark, index) => {
+            console.log(`  ${String(index + 1)}. ${bookmark.title} (${formatTime(bookmark.time)})`);
+          });
+        }
+        break;
+      }
+
+      const number = result.args.bookmark ?? 0;
+      if (number > bookmarks.length) {
+        console.error(
+          `Error: Bookmark ${String(number)} out of range (book has ${String(bookmarks.length)} bookmarks)`
+        );
+        process.exit(1);
+      }
+      const bookmark = bookmarks[number - 1];
+
+      if (result.subcommand === 'goto') {
+        const status = await daemon.send({
+          command: 'seek',
+          target: { type: 'absolute', seconds: bookmark.time },
         });
+        console.log(`Jumped to "${bookmark.title}" (${formatTime(status.playback.position)})`);
+      } else {
+        await client.deleteBookmark(bookId, bookmark.time);
+        console.log(`Deleted bookmark "${bookmark.title}"`);
+      }
+      break;
+    }
+
+    case 'daemon': {
+      switch (result.subcommand) {
+        case 'run': {
+          const { PlaybackDaemon } = await import('../daemon/index.js');
+          const { resolvePublicUrl } = await import('../proxy/index.js');
+          const proxyConfig = config.proxy ?? {};
+          const playbackDaemon = new PlaybackDaemon({
+            absClient: client,
+            proxyUrl: resolvePublicUrl({
+              publicUrl: proxyConfig.publicUrl,
+              host: proxyConfig.listenHost,
+              port: proxyConfig.listenPort,
+            }),
+            streamSecret: await getStreamSecret(config),
+            streamMode: proxyConfig.streamMode,
+            outputFormat: proxyConfig.outputFormat,
+          });
+
+          playbackDaemon.on('listening', (info: { socketPath: string }) => {
+            console.log(`Playback daemon listening on ${info.socketPath}`);
+            console.log('Press Ctrl+C to stop');
+          });
+
+          playbackDaemon.on('playback-started', (info: { bookId: string; sessionId: string; device: string }) => {
+            console.log(`Playback started: ${info.bookId} on ${info.device} (session: ${info.sessionId})`);
+          });
+
+          playbackDaemon.on('playback-stopped', (info: { bookId: string; position: number }) => {
+            console.log(`Playback stopped: ${info.bookId} at ${formatTime(info.position)}`);
+          });
+
+          playbackDaemon.on('playback-finished', (info: { bookId: string }) => {
+            console.log(`Playback finished: ${info.bookId}`);
+          });
+
+          playbackDaemon.on('sleep-complete', (info: { bookId: string; position: number }) => {
+            console.log(`Sleep timer expired: ${info.bookId} paused at ${formatTime(info.position)}`);
+          });
+
+          playbackDaemon.on('error', (err: Error) => {
+            console.error('Daemon error:', err.message);
+          });
+
+          const shutdown = (): void => {
+            void playbackDaemon.stop().then(() => {
+              process.exit(0);
+            });
+          };
+
+          playbackDaemon.on('shutdown', shutdown);
+          process.on('SIGINT', () => {
+            console.log('\nShutting down...');
+            shutdown();
+          });
+          process.on('SIGTERM', shutdown);
+
+          await playbackDaemon.start();
+
+          // Keep process alive
+          await new Promise<never>(() => {
+            // Intentionally empty - keeps process alive
+          });
+          break;
+        }
+
+        case 'start': {
+          if (await getDaemon(false)) {
+            console.log('Playback daemon already running.');
+          } else {
+            await getDaemon(true);
+            console.log('Playback daemon started.');
+          }
+          break;
+        }
+
+        case 'stop': {
+          const daemon = await getDaemon(false);
+          if (daemon) {
+            await daemon.send({ command: 'shutdown' });
+            console.log('Playback daemon stopped.');
+          } else {
+            console.log('Playback daemon is not running.');
+          }
+          break;
+        }
+
+        case 'status': {
+          const running = (await getDaemon(false)) !== null;
+          if (result.flags.json) {
+            console.log(JSON.stringify({ running, socket: getSocketPath() }, null, 2));
+          } else {
+            console.log(`Playback daemon: ${running ? 'Running' : 'Not running'} (${getSocketPath()})`);
+          }
+          break;
+        }
+
+        default:
+          console.error('Unknown daemon subcommand');
+          process.exit(2);
       }
       break;
     }
@@ -333,6 +1445,15 @@ async function main(): Promise<void> {
             publicUrl: proxyConfig.publicUrl,
             audiobookshelfUrl: config.url,
             audiobookshelfToken: config.apiKey,
+            audiobookshelfRefreshToken: config.refreshToken,
+            onTokenRefresh: async (tokens) => {
+              await updateConfig(
+                { apiKey: tokens.token, refreshToken: tokens.refreshToken },
+                config.activeProfile
+              );
+            },
+            streamSecret: await getStreamSecret(config),
+            outputFormat: proxyConfig.outputFormat,
           });
 
           server.on('listening', () => {
@@ -24,10 +24,14 @@ export interface MediaLoadOptions {
   url: string;
   /** MIME type (e.g., 'audio/mpeg') */
   contentType: string;
+  /** Segment format of an HLS stream (e.g., 'ts_aac' for MPEG-TS segments holding AAC) */
+  hlsSegmentFormat?: string;
   /** Book/media title */
   title: string;
   /** Author name */
   author?: string;
+  /** Narrator name */
+  narrator?: string;
   /** Chapter title */
   chapterTitle?: string;
   /** Chapter number */
@@ -47,6 +51,7 @@ interface CastMediaInfo {
   contentId: string;
   contentType: string;
   streamType: string;
+  hlsSegmentFormat?: string;
   duration?: number;
   metadata: {
     type: number;
@@ -61,6 +66,16 @@ interface CastMediaInfo {
   };
 }
 
+/**
+ * Subtitle line shown under the title, e.g. "Author · Narrated by Narrator"
+ */
+function formatSubtitle(author?: string, narrator?: string): string | undefined {
+  const parts = [author, narrator ? `Narrated by ${narrator}` : undefined].filter(
+    (part): part is string => !!part
+  );
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
 /**
  * Cast client events
  */
@@ -164,12 +179,13 @@ export class CastClient extends EventEmitter {
       contentId: options.url,
       contentType: options.contentType,
       streamType: StreamType.BUFFERED,
+      hlsSegmentFormat: options.hlsSegmentFormat,
       duration: options.duration,
       metadata: {
         type: 0, // Required by castv2-client
         metadataType: MetadataType.AUDIOBOOK_CHAPTER,
         title: options.title,
-        subtitle: options.author,
+        subtitle: formatSubtitle(options.author, options.narrator),
         artist: options.author,
         bookTitle: options.title,
         chapterTitle: options.chapterTitle,
@@ -337,6 +353,17 @@ export class CastClient extends EventEmitter {
     return this.connectedDevice;
   }
 
+  /**
+   * Get the launched media receiver
+   *
+   * Exposed so a PositionTracker can subscribe to the same player.
+   *
+   * @returns The receiver, or null before media has been loaded
+   */
+  getPlayer(): DefaultMediaReceiver | null {
+    return this.player;
+  }
+
   /**
    * Set up event listeners on the player
    */
@@ -2,7 +2,9 @@
  * Position tracking for Cast playback
  *
  * Tracks playback position via polling and status events,
- * syncing changes back to Audiobookshelf.
+ * syncing changes back to Audiobookshelf. Also accounts for the time
+ * actually spent playing, so paused or buffering intervals are not
+ * reported as listening time.
  */
 
 import type { DefaultMediaReceiver, PlayerStatus } from 'castv2-client';
@@ -10,8 +12,10 @@ import { PlayerState, IdleReason } from './types.js';
 
 /**
  * Callback for position sync
+ * @param position - Current position in seconds
+ * @param timeListened - Seconds spent playing since the previous sync
  */
-export type SyncCallback = (position: number) => Promise<void> | void;
+export type SyncCallback = (position: number, timeListened: number) => Promise<void> | void;
 
 /**
  * Callback for playback finished
@@ -53,6 +57,10 @@ export class PositionTracker {
   private readonly onPlaybackFinished?: FinishedCallback;
   private readonly onPlaybackError?: ErrorCallback;
   private statusHandler: ((status: PlayerStatus) => void) | null = null;
+  /** Playing time accumulated since the last sync, in milliseconds */
+  private listenedMs = 0;
+  /** Start of the current playing interval, or null when not playing */
+  private playingSince: number | null = null;
 
   constructor(
     private readonly player: DefaultMediaReceiver,
@@ -93,6 +101,7 @@ export class PositionTracker {
    */
   stop(): number {
     this._isTracking = false;
+    this.setPlaying(false);
 
     // Stop polling
     if (this.pollInterval) {
@@ -123,6 +132,35 @@ export class PositionTracker {
     return this.lastPosition;
   }
 
+  /**
+   * Take the time spent playing since the previous sync (or call)
+   *
+   * @returns Seconds played, excluding paused and buffering intervals
+   */
+  takeListenedTime(): number {
+    const now = Date.now();
+    if (this.playingSince !== null) {
+      this.listenedMs += now - this.playingSince;
+      this.playingSince = now;
+    }
+
+    const seconds = this.listenedMs / 1000;
+    this.listenedMs = 0;
+    return seconds;
+  }
+
+  /**
+   * Start or end a playing interval
+   */
+  private setPlaying(playing: boolean): void {
+    if (playing && this.playingSince === null) {
+      this.playingSince = Date.now();
+    } else if (!playing && this.playingSince !== null) {
+      this.listenedMs += Date.now() - this.playingSince;
+      this.playingSince = null;
+    }
+  }
+
   /**
    * Handle status events from the player
    */
@@ -135,6 +173,10 @@ export class PositionTracker {
       | IdleReason
       | undefined;
 
+    if (playerState) {
+      this.setPlaying(playerState === PlayerState.PLAYING);
+    }
+
     // Handle IDLE state with reasons
     if (playerState === PlayerState.IDLE) {
       if (idleReason === IdleReason.FINISHED) {
@@ -161,6 +203,9 @@ export class PositionTracker {
       }
 
       const playerState = status.playerState as PlayerState | undefined;
+      if (playerState && this._isTracking) {
+        this.setPlaying(playerState === PlayerState.PLAYING);
+      }
 
       // Only sync during active playback
       if (playerState === PlayerState.PLAYING) {
@@ -179,7 +224,7 @@ export class PositionTracker {
     if (change >= this.positionThreshold) {
       this.lastPosition = position;
       // Fire and forget sync
-      void this.syncCallback(position);
+      void this.syncCallback(position, this.takeListenedTime());
     }
   }
 }
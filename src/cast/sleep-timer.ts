@@ -92,12 +92,13 @@ export class CastSleepTimer {
    * Create a new CastSleepTimer
    *
    * @param castClient - The Cast client for pause/status
-   * @param volumeTransform - The VolumeTransform for fade control
+   * @param volumeTransform - The VolumeTransform for fade control, or null to
+   *   pause without a fade when the stream's volume is out of reach
    * @param options - Timer options
    */
   constructor(
     private readonly castClient: CastClient,
-    private readonly volumeTransform: VolumeTransform,
+    private readonly volumeTransform: VolumeTransform | null,
     private readonly options: CastSleepTimerOptions
   ) {
     this.fadeDurationMs = options.fadeDurationMs ?? 30000;
@@ -280,10 +281,12 @@ export class CastSleepTimer {
 
     try {
       // Fade volume via proxy (silent!)
-      fadeResult = await fadeOut(this.volumeTransform, this.fadeDurationMs, {
-        steps: this.fadeSteps,
-        signal: this.abortController?.signal,
-      });
+      if (this.volumeTransform) {
+        fadeResult = await fadeOut(this.volumeTransform, this.fadeDurationMs, {
+          steps: this.fadeSteps,
+          signal: this.abortController?.signal,
+        });
+      }
     } catch (error) {
       fadeError = error instanceof Error ? error : new Error(String(error));
       this.onError?.(fadeError, this.lastPosition);
@@ -0,0 +1,157 @@
+/**
+ * Playback daemon client
+ *
+ * Used by the CLI to send commands to a running playback daemon and to
+ * launch one in the background when needed.
+ */
+
+import { createConnection } from 'net';
+import { spawn } from 'child_process';
+import {
+  getSocketPath,
+  type DaemonRequest,
+  type DaemonResponse,
+  type PlaybackStatus,
+} from './protocol.js';
+
+/**
+ * Options for DaemonClient
+ */
+export interface DaemonClientOptions {
+  /** Control socket path (default: getSocketPath()) */
+  socketPath?: string;
+  /** Time to wait for a response in milliseconds (default: 60000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for launchDaemon
+ */
+export interface LaunchDaemonOptions extends DaemonClientOptions {
+  /** Path to the abs CLI entry point */
+  scriptPath: string;
+  /** Time to wait for the daemon to accept connections (default: 10000) */
+  startupTimeoutMs?: number;
+}
+
+/**
+ * Error thrown when no daemon is listening on the control socket
+ */
+export class DaemonNotRunningError extends Error {
+  constructor(public readonly socketPath: string) {
+    super(`Playback daemon is not running (socket: ${socketPath})`);
+    this.name = 'DaemonNotRunningError';
+  }
+}
+
+/**
+ * Client for the playback daemon control socket
+ */
+export class DaemonClient {
+  private readonly socketPath: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: DaemonClientOptions = {}) {
+    this.socketPath = options.socketPath ?? getSocketPath();
+    this.timeoutMs = options.timeoutMs ?? 60000;
+  }
+
+  /**
+   * Send a request and wait for the resulting playback status
+   *
+   * @throws DaemonNotRunningError if nothing is listening on the socket
+   * @throws Error if the daemon rejects the request or does not answer in time
+   */
+  send(request: DaemonRequest): Promise<PlaybackStatus> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection(this.socketPath);
+      let data = '';
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out waiting for playback daemon (${request.command})`));
+      }, this.timeoutMs);
+
+      socket.setEncoding('utf-8');
+
+      socket.on('connect', () => {
+        socket.write(JSON.stringify(request) + '\n');
+      });
+
+      socket.on('data', (chunk: string) => {
+        data += chunk;
+      });
+
+      socket.on('end', () => {
+        clearTimeout(timer);
+        try {
+          const response = JSON.parse(data) as DaemonResponse;
+          if (response.ok) {
+            resolve(response.status);
+          } else {
+            reject(new Error(response.error));
+          }
+        } catch {
+          reject(new Error('Invalid response from playback daemon'));
+        }
+      });
+
+      socket.on('error', (err: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        if (err.code === 'ENOENT' || err.code === 'ECONNREFUSED') {
+          reject(new DaemonNotRunningError(this.socketPath));
+        } else {
+          reject(err);
+        }
+      });
+    });
+  }
+
+  /**
+   * Check whether a daemon is answering on the socket
+   */
+  async isRunning(): Promise<boolean> {
+    try {
+      await this.send({ command: 'status' });
+      return true;
+    } catch (error) {
+      if (error instanceof DaemonNotRunningError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Launch the playback daemon as a detached background process
+ *
+ * Resolves once the daemon answers on its control socket.
+ *
+ * @throws Error if the daemon does not come up within the startup timeout
+ */
+export async function launchDaemon(options: LaunchDaemonOptions): Promise<DaemonClient> {
+  const socketPath = options.socketPath ?? getSocketPath();
+  const client = new DaemonClient({ ...options, socketPath });
+  const startupTimeoutMs = options.startupTimeoutMs ?? 10000;
+
+  const child = spawn(process.execPath, [options.scriptPath, 'daemon', 'run'], {
+    detached: true,
+    stdio: 'ignore',
+    env: { ...process.env, ABS_DAEMON_SOCKET: socketPath },
+  });
+  child.unref();
+
+  const deadline = Date.now() + startupTimeoutMs;
+  while (Date.now() < deadline) {
+    if (await client.isRunning()) {
+      return client;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+
+  throw new Error(
+    `Playback daemon did not start within ${String(startupTimeoutMs / 1000)}s. ` +
+      'Run "abs daemon run" in a terminal to see its output.'
+  );
+}
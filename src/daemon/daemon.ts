@@ -0,0 +1,817 @@
+/**
+ * Playback daemon
+ *
+ * Long-lived process that owns the Cast connection and the Audiobookshelf
+ * playback session. The CLI is short-lived, so it talks to this daemon over
+ * a local Unix socket and every command operates on the live playback.
+ *
+ * Architecture:
+ * CLI → Unix socket → PlaybackDaemon → CastClient / PositionTracker / CastSleepTimer
+ */
+
+import { createServer, type Server, type Socket } from 'net';
+import { EventEmitter } from 'events';
+import { mkdir, rm } from 'fs/promises';
+import { dirname } from 'path';
+import type { AudiobookshelfClient } from '../lib/client.js';
+import type { BookDetails, Chapter } from '../lib/types.js';
+import { findChapterAt } from '../lib/chapters.js';
+import { resolveSeekTarget, type SeekTarget } from '../lib/time.js';
+import { CastClient } from '../cast/client.js';
+import { PositionTracker } from '../cast/position-tracker.js';
+import { CastSleepTimer } from '../cast/sleep-timer.js';
+import { createStreamToken } from '../proxy/stream-token.js';
+import { getContentType, type OutputFormat } from '../proxy/output-format.js';
+import { PlayerState, type CastDevice, type CastMediaStatus } from '../cast/types.js';
+import { DaemonClient } from './client.js';
+import {
+  getSocketPath,
+  parseRequest,
+  type ChapterAction,
+  type DaemonRequest,
+  type DaemonResponse,
+  type PlaybackStatus,
+  type QueueItem,
+} from './protocol.js';
+
+/**
+ * Options for PlaybackDaemon
+ */
+export interface PlaybackDaemonOptions {
+  /** Audiobookshelf client for sessions and progress sync */
+  absClient: AudiobookshelfClient;
+  /** Cast client (default: new CastClient()) */
+  castClient?: CastClient;
+  /** Control socket path (default: getSocketPath()) */
+  socketPath?: string;
+  /** Position poll interval in milliseconds (default: 10000) */
+  pollIntervalMs?: number;
+  /** URL Cast devices use to reach the audio proxy, which serves audio and covers */
+  proxyUrl: string;
+  /** Secret shared with the proxy for signing stream tokens */
+  streamSecret: string;
+  /** How long a stream token stays valid in milliseconds (default: 12 hours) */
+  streamTokenTtlMs?: number;
+  /** Hand Cast devices a progressive stream or an HLS playlist (default: progressive) */
+  streamMode?: 'progressive' | 'hls';
+  /** Codec of progressive streams (default: mp3) */
+  outputFormat?: OutputFormat;
+}
+
+/** Cover width requested for Cast displays such as the Nest Hub */
+const COVER_WIDTH = 800;
+
+const DEFAULT_STREAM_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * What is being played: a book, or a podcast episode
+ */
+interface PlayableMedia {
+  title: string;
+  /** Book author, or the podcast name for episodes */
+  author?: string;
+  narrator?: string;
+  /** Server cover path of the book or podcast, if it has a cover */
+  coverPath?: string;
+  duration: number;
+  chapters: Chapter[];
+}
+
+/**
+ * Book or podcast episode currently loaded on the Cast device
+ */
+interface ActivePlayback {
+  bookId: string;
+  episodeId?: string;
+  item: PlayableMedia;
+  sessionId: string;
+  device: CastDevice;
+  tracker: PositionTracker | null;
+  /**
+   * Book position the device's stream starts at. Streams that cannot seek
+   * start at the playback position and restart on a seek, so the device's
+   * time is relative to this offset; seekable streams always start at 0.
+   */
+  streamOffset: number;
+  /** Speed the proxy plays the stream at; the device's time runs at this rate */
+  speed: number;
+  /** Last book position synced to Audiobookshelf or read from the device */
+  lastPosition: number;
+}
+
+/**
+ * Convert a time on the device's stream to a position in the book
+ */
+function toBookTime(playback: ActivePlayback, streamTime: number): number {
+  return playback.streamOffset + streamTime * playback.speed;
+}
+
+/**
+ * Get the book position from a device status, falling back to the last
+ * synced or seen position
+ *
+ * Tracker readings are synced as they come in, so the last synced position
+ * is never older than the tracker's.
+ */
+function readPosition(playback: ActivePlayback, status: CastMediaStatus | null): number {
+  if (status) {
+    playback.lastPosition = toBookTime(playback, status.currentTime);
+  }
+  return playback.lastPosition;
+}
+
+/**
+ * Stop position tracking and get the last synced or seen position in the book
+ */
+function stopTracking(playback: ActivePlayback): number {
+  playback.tracker?.stop();
+  return playback.lastPosition;
+}
+
+/**
+ * Playback daemon serving CLI requests over a Unix socket
+ */
+export class PlaybackDaemon extends EventEmitter {
+  private server?: Server;
+  private playback: ActivePlayback | null = null;
+  /** Items that start, in order, when the current one finishes */
+  private queue: QueueItem[] = [];
+  private sleepTimer: CastSleepTimer | null = null;
+  private readonly absClient: AudiobookshelfClient;
+  private readonly castClient: CastClient;
+  private readonly socketPath: string;
+  private readonly pollIntervalMs: number;
+  private readonly proxyUrl: string;
+  private readonly streamSecret: string;
+  private readonly streamTokenTtlMs: number;
+  private readonly streamMode: 'progressive' | 'hls';
+  private readonly outputFormat: OutputFormat;
+
+  constructor(options: PlaybackDaemonOptions) {
+    super();
+    this.absClient = options.absClient;
+    this.castClient = options.castClient ?? new CastClient();
+    this.socketPath = options.socketPath ?? getSocketPath();
+    this.pollIntervalMs = options.pollIntervalMs ?? 10000;
+    this.proxyUrl = options.proxyUrl.replace(/\/$/, '');
+    this.streamSecret = options.streamSecret;
+    this.streamTokenTtlMs = options.streamTokenTtlMs ?? DEFAULT_STREAM_TOKEN_TTL_MS;
+    this.streamMode = options.streamMode ?? 'progressive';
+    this.outputFormat = options.outputFormat ?? 'mp3';
+
+    this.castClient.on('error', (err: Error) => {
+      this.handleCastError(err);
+    });
+  }
+
+  /**
+   * Start listening on the control socket
+   *
+   * @throws Error if another daemon is already listening on the socket
+   */
+  async start(): Promise<void> {
+    await mkdir(dirname(this.socketPath), { recursive: true, mode: 0o700 });
+
+    if (await new DaemonClient({ socketPath: this.socketPath }).isRunning()) {
+      throw new Error(`Playback daemon already running (socket: ${this.socketPath})`);
+    }
+
+    // Remove a stale socket left behind by a daemon that did not exit cleanly
+    await rm(this.socketPath, { force: true });
+
+    return new Promise((resolve, reject) => {
+      this.server = createServer((socket) => {
+        this.handleConnection(socket);
+      });
+
+      this.server.on('error', (err) => {
+        this.emit('error', err);
+        reject(err);
+      });
+
+      this.server.listen(this.socketPath, () => {
+        this.emit('listening', { socketPath: this.socketPath });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop playback and close the control socket
+   */
+  async stop(): Promise<void> {
+    await this.stopPlayback();
+
+    await new Promise<void>((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      this.server.close(() => {
+        this.server = undefined;
+        resolve();
+      });
+    });
+
+    await rm(this.socketPath, { force: true });
+    this.emit('closed');
+  }
+
+  /**
+   * Execute a request and return the resulting playback status
+   */
+  async handleRequest(request: DaemonRequest): Promise<PlaybackStatus> {
+    switch (request.command) {
+      case 'play':
+        this.queue = [];
+        await this.play(request.bookId, request.device, request.episodeId);
+        this.queue = request.queue ?? [];
+        break;
+      case 'pause':
+        this.requirePlayback();
+        await this.castClient.pause();
+        await this.syncCurrentPosition();
+        break;
+      case 'resume':
+        this.requirePlayback();
+        await this.castClient.play();
+        break;
+      case 'stop':
+        this.queue = [];
+        await this.stopPlayback();
+        break;
+      case 'sleep':
+        this.startSleepTimer(request.minutes);
+        break;
+      case 'sleep-cancel':
+        this.cancelSleepTimer();
+        break;
+      case 'chapter':
+        await this.seekToChapter(request.action, request.number);
+        break;
+      case 'seek':
+        await this.seek(request.target);
+        break;
+      case 'speed':
+        await this.setSpeed(request.speed);
+        break;
+      case 'status':
+      case 'shutdown':
+        break;
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Get the current playback and sleep timer state
+   */
+  async getStatus(): Promise<PlaybackStatus> {
+    const playback = this.playback;
+    const castStatus = playback ? await this.castClient.getStatus() : null;
+    const timerState = this.sleepTimer?.getState();
+    const position = playback ? readPosition(playback, castStatus) : 0;
+    const chapter = playback ? findChapterAt(playback.item.chapters, position) : null;
+    const streamDuration = castStatus?.media?.duration;
+
+    return {
+      playback: {
+        active: playback !== null,
+        device: playback?.device.name ?? null,
+        bookId: playback?.bookId ?? null,
+        episodeId: playback?.episodeId ?? null,
+        title: playback?.item.title ?? null,
+        chapter: chapter ? { number: chapter.number, title: chapter.chapter.title } : null,
+        sessionId: playback?.sessionId ?? null,
+        state: castStatus?.playerState ?? null,
+        position,
+        speed: playback?.speed ?? 1.0,
+        duration:
+          playback && streamDuration !== undefined
+            ? toBookTime(playback, streamDuration)
+            : (playback?.item.duration ?? 0),
+        queued: this.queue.length,
+      },
+      sleepTimer: {
+        active: timerState?.active ?? false,
+        phase: timerState?.phase ?? 'inactive',
+        remainingSeconds: Math.ceil((timerState?.remainingMs ?? 0) / 1000),
+      },
+    };
+  }
+
+  /**
+   * Start a book or podcast episode on a device, replacing any current playback
+   *
+   * @param speed - Playback speed (progressive streams only, default: normal)
+   */
+  private async play(
+    bookId: string,
+    device: CastDevice,
+    episodeId?: string,
+    speed = 1.0
+  ): Promise<void> {
+    await this.stopPlayback();
+
+    const details = await this.absClient.getItem(bookId);
+    const item = await this.getPlayableMedia(details, episodeId);
+    const progress = await this.absClient.getProgress(bookId, episodeId);
+    const session = await this.absClient.startSession(bookId, episodeId);
+    // Saved progress is authoritative; finished books start again from the top
+    const resumePosition = progress?.isFinished ? 0 : (progress?.currentTime ?? session.currentTime);
+
+    let streamOffset: number;
+    try {
+      await this.castClient.connect(device);
+      streamOffset = await this.loadStream(bookId, episodeId, item, resumePosition, speed);
+    } catch (error) {
+      this.castClient.disconnect();
+      await this.closeSession(session.id, resumePosition);
+      throw error;
+    }
+
+    const playback: ActivePlayback = {
+      bookId,
+      episodeId,
+      item,
+      sessionId: session.id,
+      device,
+      tracker: null,
+      streamOffset,
+      speed,
+      lastPosition: resumePosition,
+    };
+
+    const player = this.castClient.getPlayer();
+    if (player) {
+      playback.tracker = new PositionTracker(
+        player,
+        (position, timeListened) =>
+          this.syncSession(playback, toBookTime(playback, position), timeListened),
+        {
+          pollIntervalMs: this.pollIntervalMs,
+          onPlaybackFinished: (position) => {
+            void this.handlePlaybackFinished(toBookTime(playback, position));
+          },
+        }
+      );
+      playback.tracker.start();
+    }
+
+    this.playback = playback;
+
+    this.emit('playback-started', { bookId, sessionId: session.id, device: device.name });
+  }
+
+  /**
+   * Check whether the device can seek within the streams the daemon hands out
+   *
+   * HLS playlists and normal-speed MP3 streams (which have a known length)
+   * support seeking. Other progressive streams are sent without a length, so
+   * they start at the playback position and are reloaded to seek.
+   */
+  private canSeekStream(speed: number): boolean {
+    return this.streamMode === 'hls' || (this.outputFormat === 'mp3' && speed === 1.0);
+  }
+
+  /**
+   * Load a book or episode on the connected device at a position
+   *
+   * Each load gets a fresh stream token.
+   *
+   * @param speed - Speed for the proxy to play the stream at (progressive streams only)
+   * @returns The book position the stream starts at (see ActivePlayback.streamOffset)
+   */
+  private async loadStream(
+    bookId: string,
+    episodeId: string | undefined,
+    item: PlayableMedia,
+    position: number,
+    speed: number
+  ): Promise<number> {
+    const chapter = findChapterAt(item.chapters, position);
+    const token = encodeURIComponent(
+      createStreamToken(
+        { bookId, episodeId, expiresAt: Date.now() + this.streamTokenTtlMs },
+        this.streamSecret
+      )
+    );
+    const streamOffset = this.canSeekStream(speed) ? 0 : position;
+
+    // HLS playlists start encoding at the resume position; progressive MP3 streams seek by range
+    const stream =
+      this.streamMode === 'hls'
+        ? {
+            url: `${this.proxyUrl}/hls/${bookId}/playlist.m3u8?token=${token}&start=${String(position)}`,
+            contentType: 'application/vnd.apple.mpegurl',
+            hlsSegmentFormat: 'ts_aac',
+          }
+        : {
+            url:
+              `${this.proxyUrl}/stream/${bookId}?token=${token}&format=${this.outputFormat}` +
+              (streamOffset > 0 ? `&start=${String(streamOffset)}` : '') +
+              (speed !== 1.0 ? `&speed=${String(speed)}` : ''),
+            contentType: getContentType(this.outputFormat),
+          };
+
+    await this.castClient.loadMedia({
+      ...stream,
+      title: item.title,
+      author: item.author,
+      narrator: item.narrator,
+      coverUrl: item.coverPath
+        ? `${this.proxyUrl}/cover/${bookId}?width=${String(COVER_WIDTH)}&token=${token}`
+        : undefined,
+      chapterTitle: chapter?.chapter.title,
+      chapterNumber: chapter?.number,
+      duration: (item.duration - streamOffset) / speed,
+      resumePosition: (position - streamOffset) / speed,
+    });
+    return streamOffset;
+  }
+
+  /**
+   * Get the book itself, or the requested episode of a podcast
+   *
+   * @throws Error if a podcast is played without an episode, or the episode does not exist
+   */
+  private async getPlayableMedia(
+    details: BookDetails,
+    episodeId: string | undefined
+  ): Promise<PlayableMedia> {
+    if (!episodeId) {
+      if (details.mediaType === 'podcast') {
+        throw new Error(
+          `"${details.title}" is a podcast. Use "abs play <podcast> --episode latest" to pick an episode.`
+        );
+      }
+      return details;
+    }
+
+    const episodes = await this.absClient.getPodcastEpisodes(details.id);
+    const episode = episodes.find((candidate) => candidate.id === episodeId);
+    if (!episode) {
+      throw new Error(`Episode ${episodeId} not found in "${details.title}"`);
+    }
+    return {
+      title: episode.title,
+      author: details.title,
+      coverPath: details.coverPath,
+      duration: episode.duration,
+      chapters: episode.chapters,
+    };
+  }
+
+  /**
+   * Stop playback, sync the final position and close the ABS session
+   */
+  private async stopPlayback(): Promise<void> {
+    const playback = this.playback;
+    if (!playback) {
+      return;
+    }
+
+    this.cancelSleepTimer();
+    this.playback = null;
+
+    let position = stopTracking(playback);
+    const status = await this.castClient.getStatus();
+    if (status && status.playerState !== PlayerState.IDLE) {
+      position = toBookTime(playback, status.currentTime);
+    }
+
+    await this.castClient.stop();
+    this.castClient.disconnect();
+    await this.syncSession(playback, position);
+    await this.closeSession(playback.sessionId, position);
+
+    this.emit('playback-stopped', { bookId: playback.bookId, position });
+  }
+
+  /**
+   * Seek to a target, clamped to the book duration
+   */
+  private async seek(target: SeekTarget): Promise<void> {
+    const playback = this.requirePlayback();
+    const position = await this.getCurrentPosition(playback);
+    await this.seekTo(playback, resolveSeekTarget(target, position, playback.item.duration));
+  }
+
+  /**
+   * Seek to the next, previous or a numbered chapter
+   */
+  private async seekToChapter(action: ChapterAction, number?: number): Promise<void> {
+    const playback = this.requirePlayback();
+    const chapters = [...playback.item.chapters].sort((a, b) => a.start - b.start);
+    if (chapters.length === 0) {
+      throw new Error(`"${playback.item.title}" has no chapters`);
+    }
+
+    const position = await this.getCurrentPosition(playback);
+    const current = findChapterAt(chapters, position)?.number ?? 1;
+
+    let target: number;
+    switch (action) {
+      case 'next':
+        target = current + 1;
+        break;
+      case 'prev':
+        target = current - 1;
+        break;
+      case 'goto':
+        target = number ?? current;
+        break;
+    }
+
+    if (target < 1 || target > chapters.length) {
+      throw new Error(
+        action === 'goto'
+          ? `Chapter ${String(target)} out of range (1-${String(chapters.length)})`
+          : `Already at the ${action === 'next' ? 'last' : 'first'} chapter`
+      );
+    }
+
+    await this.seekTo(playback, chapters[target - 1].start);
+  }
+
+  /**
+   * Get the live position from the device, falling back to the tracker
+   */
+  private async getCurrentPosition(playback: ActivePlayback): Promise<number> {
+    return readPosition(playback, await this.castClient.getStatus());
+  }
+
+  /**
+   * Seek the Cast device and sync the new position to Audiobookshelf
+   *
+   * Streams that cannot seek are reloaded at the new position.
+   */
+  private async seekTo(playback: ActivePlayback, position: number): Promise<void> {
+    if (this.canSeekStream(playback.speed)) {
+      await this.castClient.seek(position);
+    } else {
+      await this.reloadStream(playback, position, playback.speed);
+    }
+    await this.syncSession(playback, position);
+  }
+
+  /**
+   * Change the playback speed, reloading the stream at the current position
+   *
+   * The proxy plays the stream at the new speed, so positions on the device
+   * are scaled back to book time.
+   *
+   * @throws Error in HLS mode, where the playlist timeline is fixed
+   */
+  private async setSpeed(speed: number): Promise<void> {
+    const playback = this.requirePlayback();
+    if (this.streamMode === 'hls') {
+      throw new Error('Speed control needs progressive streams (proxy.streamMode is "hls")');
+    }
+    if (speed === playback.speed) {
+      return;
+    }
+
+    const position = await this.getCurrentPosition(playback);
+    await this.reloadStream(playback, position, speed);
+    await this.syncSession(playback, position);
+  }
+
+  /**
+   * Load the current item again at a position and speed
+   */
+  private async reloadStream(
+    playback: ActivePlayback,
+    position: number,
+    speed: number
+  ): Promise<void> {
+    playback.streamOffset = await this.loadStream(
+      playback.bookId,
+      playback.episodeId,
+      playback.item,
+      position,
+      speed
+    );
+    playback.speed = speed;
+  }
+
+  /**
+   * Start (or restart) the sleep timer for the current playback
+   *
+   * The proxy pipeline runs in another process, out of the daemon's reach, so
+   * the timer pauses at expiry without a fade.
+   */
+  private startSleepTimer(minutes: number): void {
+    const playback = this.requirePlayback();
+    this.cancelSleepTimer();
+
+    const timer = new CastSleepTimer(this.castClient, null, {
+      durationMs: minutes * 60 * 1000,
+      onPositionSync: (position) => this.syncSession(playback, toBookTime(playback, position)),
+      onComplete: (position) => {
+        this.emit('sleep-complete', {
+          bookId: playback.bookId,
+          position: toBookTime(playback, position),
+        });
+      },
+      onError: (error) => {
+        this.emit('error', error);
+      },
+    });
+    this.sleepTimer = timer;
+
+    void timer.start().finally(() => {
+      if (this.sleepTimer === timer) {
+        this.sleepTimer = null;
+      }
+    });
+  }
+
+  /**
+   * Cancel the sleep timer if one is running
+   */
+  private cancelSleepTimer(): void {
+    if (this.sleepTimer) {
+      this.sleepTimer.cancel();
+      this.sleepTimer = null;
+    }
+  }
+
+  /**
+   * Get the current playback or fail with a user-facing message
+   */
+  private requirePlayback(): ActivePlayback {
+    if (!this.playback) {
+      throw new Error('No active playback. Use "abs play <book-id>" to start playback.');
+    }
+    return this.playback;
+  }
+
+  /**
+   * Sync the device's current position to Audiobookshelf
+   */
+  private async syncCurrentPosition(): Promise<void> {
+    const playback = this.playback;
+    const status = await this.castClient.getStatus();
+    if (playback && status) {
+      await this.syncSession(playback, toBookTime(playback, status.currentTime));
+    }
+  }
+
+  /**
+   * Sync position and listening time to the ABS session, reporting (not throwing) failures
+   *
+   * The session sync also updates the user's progress, and feeds the
+   * server's listening stats.
+   *
+   * @param timeListened - Seconds played since the last sync (default: taken from the tracker)
+   */
+  private async syncSession(
+    playback: ActivePlayback,
+    position: number,
+    timeListened?: number
+  ): Promise<void> {
+    playback.lastPosition = position;
+    try {
+      await this.absClient.syncSession(playback.sessionId, {
+        currentTime: position,
+        timeListened: timeListened ?? playback.tracker?.takeListenedTime() ?? 0,
+        duration: playback.item.duration,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', new Error(`Progress sync failed for ${playback.bookId}: ${err.message}`));
+    }
+  }
+
+  /**
+   * Mark a book or episode finished, reporting (not throwing) failures
+   */
+  private async markFinished(bookId: string, episodeId?: string): Promise<void> {
+    try {
+      await this.absClient.markFinished(bookId, true, episodeId);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', new Error(`Marking ${bookId} finished failed: ${err.message}`));
+    }
+  }
+
+  /**
+   * Close an ABS session, reporting (not throwing) failures
+   */
+  private async closeSession(sessionId: string, position: number): Promise<void> {
+    try {
+      await this.absClient.closeSession(sessionId, position);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', new Error(`Closing session ${sessionId} failed: ${err.message}`));
+    }
+  }
+
+  /**
+   * Handle the book reaching its end, then start the next queued item
+   */
+  private async handlePlaybackFinished(position: number): Promise<void> {
+    const playback = this.playback;
+    if (!playback) {
+      return;
+    }
+
+    this.cancelSleepTimer();
+    this.playback = null;
+    playback.tracker?.stop();
+
+    await this.syncSession(playback, position);
+    // The last position sync is usually a few seconds short of the end
+    await this.markFinished(playback.bookId, playback.episodeId);
+    this.castClient.disconnect();
+    await this.closeSession(playback.sessionId, position);
+
+    this.emit('playback-finished', { bookId: playback.bookId, position });
+    await this.playNext(playback.device, playback.speed);
+  }
+
+  /**
+   * Start the next queued item on the device, skipping items that fail to start
+   *
+   * @param speed - Speed of the item that finished, kept for the next one
+   */
+  private async playNext(device: CastDevice, speed: number): Promise<void> {
+    for (let next = this.queue.shift(); next; next = this.queue.shift()) {
+      try {
+        await this.play(next.bookId, device, next.episodeId, speed);
+        return;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.emit('error', new Error(`Starting queued item ${next.bookId} failed: ${err.message}`));
+      }
+    }
+  }
+
+  /**
+   * Handle loss of the Cast connection
+   */
+  private handleCastError(err: Error): void {
+    this.emit('error', new Error(`Cast connection error: ${err.message}`));
+
+    const playback = this.playback;
+    if (!playback) {
+      return;
+    }
+
+    this.cancelSleepTimer();
+    this.playback = null;
+    this.queue = [];
+    const position = stopTracking(playback);
+    void this.closeSession(playback.sessionId, position);
+    this.emit('playback-stopped', { bookId: playback.bookId, position });
+  }
+
+  /**
+   * Read one request line from a client and answer it
+   */
+  private handleConnection(socket: Socket): void {
+    let buffer = '';
+    socket.setEncoding('utf-8');
+
+    const onData = (chunk: string): void => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+      socket.off('data', onData);
+      void this.respond(socket, buffer.slice(0, newline));
+    };
+
+    socket.on('data', onData);
+    socket.on('error', (err) => {
+      this.emit('error', err);
+    });
+  }
+
+  /**
+   * Execute a raw request line and write the response
+   */
+  private async respond(socket: Socket, line: string): Promise<void> {
+    let request: DaemonRequest | null = null;
+    let response: DaemonResponse;
+
+    try {
+      request = parseRequest(line);
+      response = { ok: true, status: await this.handleRequest(request) };
+    } catch (error) {
+      response = {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    socket.end(JSON.stringify(response) + '\n');
+
+    if (request?.command === 'shutdown') {
+      this.emit('shutdown');
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Playback Daemon Module
+ *
+ * Long-lived playback process controlled by the CLI over a Unix socket.
+ */
+
+export { PlaybackDaemon, type PlaybackDaemonOptions } from './daemon.js';
+
+export {
+  DaemonClient,
+  DaemonNotRunningError,
+  launchDaemon,
+  type DaemonClientOptions,
+  type LaunchDaemonOptions,
+} from './client.js';
+
+export {
+  getSocketPath,
+  parseRequest,
+  type DaemonRequest,
+  type DaemonCommand,
+  type DaemonResponse,
+  type PlayRequest,
+  type SleepRequest,
+  type ChapterRequest,
+  type ChapterAction,
+  type SeekRequest,
+  type SimpleRequest,
+  type PlaybackStatus,
+} from './protocol.js';
@@ -0,0 +1,280 @@
+/**
+ * Playback daemon protocol
+ *
+ * Message types exchanged between the CLI and the playback daemon over a
+ * local Unix socket. Each connection carries exactly one newline-terminated
+ * JSON request followed by one newline-terminated JSON response.
+ */
+
+import { homedir } from 'os';
+import { join } from 'path';
+import type { CastDevice, PlayerState } from '../cast/types.js';
+import type { SleepTimerPhase } from '../cast/sleep-timer.js';
+import type { SeekTarget } from '../lib/time.js';
+import { MIN_SPEED, MAX_SPEED } from '../proxy/tempo-transform.js';
+
+/**
+ * Start playback of a book on a device
+ */
+export interface PlayRequest {
+  command: 'play';
+  bookId: string;
+  /** Podcast episode to play (required for podcasts) */
+  episodeId?: string;
+  device: CastDevice;
+  /** Items to play next, in order, each starting when the previous one finishes */
+  queue?: QueueItem[];
+}
+
+/**
+ * Book or podcast episode waiting in the play queue
+ */
+export interface QueueItem {
+  bookId: string;
+  episodeId?: string;
+}
+
+/**
+ * Set the sleep timer for the current playback
+ */
+export interface SleepRequest {
+  command: 'sleep';
+  minutes: number;
+}
+
+/**
+ * Move between chapters of the current book
+ */
+export interface ChapterRequest {
+  command: 'chapter';
+  action: ChapterAction;
+  /** 1-based chapter number (goto only) */
+  number?: number;
+}
+
+/**
+ * Chapter navigation action
+ */
+export type ChapterAction = 'next' | 'prev' | 'goto';
+
+/**
+ * Seek within the current book
+ */
+export interface SeekRequest {
+  command: 'seek';
+  target: SeekTarget;
+}
+
+/**
+ * Change the playback speed of the current book
+ */
+export interface SpeedRequest {
+  command: 'speed';
+  /** Speed (0.5-3.0, 1.0 = normal) */
+  speed: number;
+}
+
+/**
+ * Commands that take no parameters
+ */
+export interface SimpleRequest {
+  command: 'pause' | 'resume' | 'stop' | 'status' | 'sleep-cancel' | 'shutdown';
+}
+
+/**
+ * Any request the daemon accepts
+ */
+export type DaemonRequest =
+  | PlayRequest
+  | SleepRequest
+  | ChapterRequest
+  | SeekRequest
+  | SpeedRequest
+  | SimpleRequest;
+
+/**
+ * Daemon command name
+ */
+export type DaemonCommand = DaemonRequest['command'];
+
+/**
+ * Playback state reported by the daemon
+ */
+export interface PlaybackStatus {
+  playback: {
+    /** Whether a book is loaded on a Cast device */
+    active: boolean;
+    /** Name of the Cast device, if any */
+    device: string | null;
+    /** Library item ID of the loaded book or podcast */
+    bookId: string | null;
+    /** Podcast episode ID, if an episode is loaded */
+    episodeId: string | null;
+    /** Title of the loaded book or episode */
+    title: string | null;
+    /** Chapter at the current position */
+    chapter: { number: number; title: string } | null;
+    /** Audiobookshelf playback session ID */
+    sessionId: string | null;
+    /** Last known Cast player state */
+    state: PlayerState | null;
+    /** Current position in the book in seconds */
+    position: number;
+    /** Playback speed (1.0 = normal) */
+    speed: number;
+    /** Duration in seconds (0 if unknown) */
+    duration: number;
+    /** Items waiting to play after the current one */
+    queued: number;
+  };
+  sleepTimer: {
+    active: boolean;
+    phase: SleepTimerPhase;
+    remainingSeconds: number;
+  };
+}
+
+/**
+ * Successful response - every command answers with the resulting status
+ */
+export interface DaemonSuccessResponse {
+  ok: true;
+  status: PlaybackStatus;
+}
+
+/**
+ * Failed response
+ */
+export interface DaemonErrorResponse {
+  ok: false;
+  error: string;
+}
+
+/**
+ * Any response the daemon sends
+ */
+export type DaemonResponse = DaemonSuccessResponse | DaemonErrorResponse;
+
+const COMMANDS: readonly DaemonCommand[] = [
+  'play',
+  'pause',
+  'resume',
+  'stop',
+  'status',
+  'sleep',
+  'sleep-cancel',
+  'chapter',
+  'seek',
+  'speed',
+  'shutdown',
+];
+
+const CHAPTER_ACTIONS: readonly ChapterAction[] = ['next', 'prev', 'goto'];
+
+/**
+ * Get the path of the daemon control socket
+ *
+ * Honours ABS_DAEMON_SOCKET, then XDG_RUNTIME_DIR, falling back to ~/.cache/abs.
+ * Each profile gets its own socket, and so its own daemon: a daemon plays
+ * with the credentials of the profile it was launched for.
+ *
+ * @param profile - Configuration profile (default: ABS_PROFILE)
+ */
+export function getSocketPath(profile = process.env.ABS_PROFILE): string {
+  if (process.env.ABS_DAEMON_SOCKET) {
+    return process.env.ABS_DAEMON_SOCKET;
+  }
+  const runtimeDir = process.env.XDG_RUNTIME_DIR ?? join(homedir(), '.cache');
+  const name = profile ? `daemon-${encodeURIComponent(profile)}.sock` : 'daemon.sock';
+  return join(runtimeDir, 'abs', name);
+}
+
+/**
+ * Check that a value is a list of queue items
+ */
+function isQueue(value: unknown): value is QueueItem[] {
+  return (
+    Array.isArray(value) &&
+    value.every((entry) => {
+      const item = entry as Partial<Record<string, unknown>> | null;
+      return (
+        typeof item?.bookId === 'string' &&
+        item.bookId !== '' &&
+        (item.episodeId === undefined || (typeof item.episodeId === 'string' && item.episodeId !== ''))
+      );
+    })
+  );
+}
+
+/**
+ * Parse and validate a raw request line received from a client
+ *
+ * @throws Error if the line is not a well-formed request
+ */
+export function parseRequest(line: string): DaemonRequest {
+  const value = JSON.parse(line) as unknown;
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Request must be a JSON object');
+  }
+
+  const request = value as Partial<Record<string, unknown>>;
+  const command = request.command;
+  if (typeof command !== 'string' || !COMMANDS.includes(command as DaemonCommand)) {
+    throw new Error(`Unknown daemon command: ${String(command)}`);
+  }
+
+  if (command === 'play') {
+    const device = request.device as Partial<CastDevice> | undefined;
+    if (typeof request.bookId !== 'string' || !request.bookId) {
+      throw new Error('play requires a bookId');
+    }
+    if (request.episodeId !== undefined && (typeof request.episodeId !== 'string' || !request.episodeId)) {
+      throw new Error('play episodeId must be a non-empty string');
+    }
+    if (!device || typeof device.host !== 'string' || typeof device.port !== 'number') {
+      throw new Error('play requires a device with host and port');
+    }
+    if (request.queue !== undefined && !isQueue(request.queue)) {
+      throw new Error('play queue must be a list of items with a bookId');
+    }
+  }
+
+  if (command === 'sleep') {
+    if (typeof request.minutes !== 'number' || request.minutes <= 0) {
+      throw new Error('sleep requires a positive number of minutes');
+    }
+  }
+
+  if (command === 'chapter') {
+    if (!CHAPTER_ACTIONS.includes(request.action as ChapterAction)) {
+      throw new Error(`Unknown chapter action: ${String(request.action)}`);
+    }
+    if (
+      request.action === 'goto' &&
+      (typeof request.number !== 'number' || !Number.isInteger(request.number))
+    ) {
+      throw new Error('chapter goto requires a chapter number');
+    }
+  }
+
+  if (command === 'seek') {
+    const target = request.target as Partial<Record<string, unknown>> | undefined;
+    const amount = target?.type === 'percent' ? target.percent : target?.seconds;
+    if (
+      !target ||
+      !['relative', 'absolute', 'percent'].includes(String(target.type)) ||
+      typeof amount !== 'number' ||
+      !isFinite(amount)
+    ) {
+      throw new Error('seek requires a valid target');
+    }
+  }
+
+  if (command === 'speed') {
+    if (typeof request.speed !== 'number' || request.speed < MIN_SPEED || request.speed > MAX_SPEED) {
+      throw new Error(`speed must be between ${String(MIN_SPEED)} and ${String(MAX_SPEED)}`);
+    }
+  }
+
+  return value as DaemonRequest;
+}
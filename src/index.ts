@@ -4,9 +4,42 @@
  * Provides Audiobookshelf integration with Google Cast support.
  */
 
-export { AudiobookshelfClient, AudiobookshelfApiError } from './lib/client.js';
+export {
+  AudiobookshelfClient,
+  AudiobookshelfApiError,
+  AudiobookshelfTimeoutError,
+  type ApiErrorDetails,
+  type ItemListOptions,
+} from './lib/client.js';
 export { CastController } from './lib/cast.js';
 export { SleepTimer } from './lib/sleep-timer.js';
+export { findChapterAt, type ChapterPosition } from './lib/chapters.js';
+export {
+  AmbiguousMatchError,
+  NoMatchError,
+  looksLikeItemId,
+  rankBooks,
+  selectBook,
+  type MatchCandidate,
+  type MatchQuality,
+  type RankedBook,
+} from './lib/match.js';
 
 export type { AudiobookshelfConfig } from './lib/config.js';
-export type { Book, Library, PlaybackSession, Progress } from './lib/types.js';
+export type {
+  AudioTrack,
+  AuthorResult,
+  Book,
+  BookDetails,
+  Chapter,
+  InProgressBook,
+  Library,
+  NarratorResult,
+  PlaybackSession,
+  Podcast,
+  PodcastEpisode,
+  Progress,
+  SearchResults,
+  SeriesResult,
+  TagResult,
+} from './lib/types.js';
@@ -0,0 +1,44 @@
+/**
+ * Chapter helpers
+ *
+ * Maps playback positions to chapters of a book.
+ */
+
+import type { Chapter } from './types.js';
+
+/**
+ * A chapter together with its 1-based number
+ */
+export interface ChapterPosition {
+  chapter: Chapter;
+  /** 1-based chapter number */
+  number: number;
+}
+
+/**
+ * Find the chapter containing a position
+ *
+ * Positions before the first chapter map to the first chapter and positions
+ * at or past the end map to the last, so a loaded book always has a chapter.
+ *
+ * @param chapters - Chapters of the book
+ * @param position - Position in seconds from the start of the book
+ * @returns The chapter, or null if the book has no chapters
+ */
+export function findChapterAt(chapters: Chapter[], position: number): ChapterPosition | null {
+  if (chapters.length === 0) {
+    return null;
+  }
+
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  let index = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].start <= position) {
+      index = i;
+    } else {
+      break;
+    }
+  }
+
+  return { chapter: sorted[index], number: index + 1 };
+}
@@ -8,6 +8,10 @@
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { parseSeekTarget } from './time.js';
+import { parseItemFilter, SORT_FIELDS } from './listing.js';
+import { STATS_PERIODS, type StatsPeriod } from './stats.js';
+import { MIN_SPEED, MAX_SPEED } from '../proxy/tempo-transform.js';
 
 /**
  * CLI configuration from environment variables
@@ -16,6 +20,7 @@ export interface CLIConfig {
   server?: string;
   token?: string;
   device?: string;
+  profile?: string;
 }
 
 /**
@@ -28,7 +33,22 @@ export interface CLIArgs {
   device?: string;
   name?: string;
   minutes?: number;
-  fade?: number;
+  chapter?: number;
+  position?: string;
+  sort?: string;
+  filter?: string;
+  limit?: number;
+  page?: number;
+  server?: string;
+  user?: string;
+  token?: string;
+  episode?: string;
+  series?: string;
+  playlist?: string;
+  title?: string;
+  bookmark?: number;
+  period?: string;
+  speed?: number;
   [key: string]: string | number | undefined;
 }
 
@@ -40,6 +60,9 @@ export interface CLIFlags {
   version?: boolean;
   json?: boolean;
   refresh?: boolean;
+  first?: boolean;
+  desc?: boolean;
+  next?: boolean;
   [key: string]: boolean | undefined;
 }
 
@@ -64,7 +87,14 @@ const COMMANDS = [
   'books',
   'search',
   'play',
+  'episodes',
+  'series',
+  'collection',
+  'playlist',
   'resume',
+  'finish',
+  'unfinish',
+  'progress',
   'pause',
   'stop',
   'devices',
@@ -72,12 +102,40 @@ const COMMANDS = [
   'sleep',
   'status',
   'service',
+  'daemon',
+  'chapter',
+  'seek',
+  'speed',
+  'bookmark',
+  'stats',
+  'history',
+  'login',
+  'profile',
   'help',
   'version',
 ];
 
 const SERVICE_SUBCOMMANDS = ['run', 'start', 'stop', 'status'];
 
+const DAEMON_SUBCOMMANDS = ['run', 'start', 'stop', 'status'];
+
+const CHAPTER_SUBCOMMANDS = ['list', 'next', 'prev', 'goto'];
+
+const PROFILE_SUBCOMMANDS = ['list', 'use', 'add', 'remove'];
+
+const BOOKMARK_SUBCOMMANDS = ['add', 'list', 'goto', 'rm'];
+
+const COLLECTION_SUBCOMMANDS = ['list', 'create', 'add', 'remove', 'delete'];
+
+const PLAYLIST_SUBCOMMANDS = ['list', 'create', 'add', 'remove', 'delete'];
+
+/**
+ * Check an --episode value: "latest" or a 1-based number from `abs episodes`
+ */
+function isEpisodeSelector(value: string): boolean {
+  return value === 'latest' || /^[1-9]\d*$/.test(value);
+}
+
 /**
  * Parse CLI arguments
  * @param argv - Command line arguments (without node and script name)
@@ -92,6 +150,7 @@ export function parseCLI(argv: string[]): CLIResult {
       server: process.env.ABS_SERVER,
       token: process.env.ABS_TOKEN,
       device: process.env.ABS_DEVICE,
+      profile: process.env.ABS_PROFILE,
     },
     exitCode: 0,
   };
@@ -104,6 +163,7 @@ export function parseCLI(argv: string[]): CLIResult {
 
   // Parse flags and collect positional args
   const positional: string[] = [];
+  const paging: { limit?: string; page?: string } = {};
   let i = 0;
 
   while (i < argv.length) {
@@ -134,6 +194,24 @@ export function parseCLI(argv: string[]): CLIResult {
       continue;
     }
 
+    if (arg === '--first') {
+      result.flags.first = true;
+      i++;
+      continue;
+    }
+
+    if (arg === '--desc') {
+      result.flags.desc = true;
+      i++;
+      continue;
+    }
+
+    if (arg === '--next') {
+      result.flags.next = true;
+      i++;
+      continue;
+    }
+
     // Flag with value
     if (arg === '--library' || arg === '-l') {
       i++;
@@ -153,18 +231,51 @@ export function parseCLI(argv: string[]): CLIResult {
       continue;
     }
 
-    if (arg === '--fade' || arg === '-f') {
+    if (arg === '--profile' || arg === '-p') {
       i++;
       if (i < argv.length) {
-        const fadeSeconds = parseInt(argv[i], 10);
-        if (!isNaN(fadeSeconds)) {
-          result.args.fade = fadeSeconds;
-        }
+        result.config.profile = argv[i];
+      }
+      i++;
+      continue;
+    }
+
+    if (
+      arg === '--sort' ||
+      arg === '--filter' ||
+      arg === '--server' ||
+      arg === '--user' ||
+      arg === '--token' ||
+      arg === '--episode' ||
+      arg === '--series' ||
+      arg === '--playlist' ||
+      arg === '--title' ||
+      arg === '--period'
+    ) {
+      i++;
+      if (i < argv.length) {
+        result.args[arg.slice(2)] = argv[i];
       }
       i++;
       continue;
     }
 
+    if (arg === '--limit' || arg === '--page') {
+      i++;
+      if (i < argv.length) {
+        paging[arg === '--limit' ? 'limit' : 'page'] = argv[i];
+      }
+      i++;
+      continue;
+    }
+
+    // Negative numbers (e.g. "seek -30s") are positional, not flags
+    if (/^-\d/.test(arg)) {
+      positional.push(arg);
+      i++;
+      continue;
+    }
+
     // Skip unknown flags
     if (arg.startsWith('-')) {
       i++;
@@ -196,8 +307,101 @@ export function parseCLI(argv: string[]): CLIResult {
 
   // Parse command-specific arguments
   switch (command) {
-    case 'library':
     case 'books':
+      if (result.args.sort !== undefined && !Object.hasOwn(SORT_FIELDS, result.args.sort)) {
+        result.error = `--sort must be one of: ${Object.keys(SORT_FIELDS).join(', ')}`;
+        result.exitCode = 2;
+      } else if (result.args.filter !== undefined && !parseItemFilter(result.args.filter)) {
+        result.error =
+          '--filter must be author:, series:, narrator:, genre:, tag: or progress:<value>';
+        result.exitCode = 2;
+      } else {
+        applyPaging(result, paging);
+      }
+      break;
+
+    case 'history':
+      applyPaging(result, paging);
+      break;
+
+    case 'stats':
+      result.args.period = result.args.period ?? 'week';
+      if (!STATS_PERIODS.includes(result.args.period as StatsPeriod)) {
+        result.error = `--period must be one of: ${STATS_PERIODS.join(', ')}`;
+        result.exitCode = 2;
+      }
+      break;
+
+    case 'finish':
+    case 'unfinish':
+      if (positional.length < 2) {
+        result.error = `${command} requires a book title or id argument`;
+        result.exitCode = 2;
+      } else {
+        result.args.id = positional.slice(1).join(' ');
+      }
+      break;
+
+    case 'progress':
+      if (positional.length < 2) {
+        result.error = 'progress requires a subcommand (reset)';
+        result.exitCode = 2;
+      } else if (positional[1] !== 'reset') {
+        result.error = `Unknown progress subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+      } else {
+        result.subcommand = 'reset';
+        if (positional.length < 3) {
+          result.error = 'progress reset requires a book title or id argument';
+          result.exitCode = 2;
+        } else {
+          result.args.id = positional.slice(2).join(' ');
+        }
+      }
+      break;
+
+    case 'episodes':
+      if (positional.length < 2) {
+        result.error = 'episodes requires a podcast title or id argument';
+        result.exitCode = 2;
+      } else {
+        result.args.id = positional.slice(1).join(' ');
+      }
+      break;
+
+    case 'profile':
+      if (positional.length < 2) {
+        result.error = 'profile requires a subcommand (list, use, add, remove)';
+        result.exitCode = 2;
+      } else if (!PROFILE_SUBCOMMANDS.includes(positional[1])) {
+        result.error = `Unknown profile subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+      } else {
+        result.subcommand = positional[1];
+        if (result.subcommand !== 'list') {
+          if (positional.length < 3) {
+            result.error = `profile ${result.subcommand} requires a profile name`;
+            result.exitCode = 2;
+          } else {
+            result.args.name = positional[2];
+          }
+        }
+        if (result.subcommand === 'add' && !result.error && !result.args.user && !result.args.token) {
+          result.error = 'profile add requires --user <name> or --token <token>';
+          result.exitCode = 2;
+        }
+      }
+      break;
+
+    case 'login':
+      if (!result.args.user) {
+        result.error = 'login requires --user <name>';
+        result.exitCode = 2;
+      }
+      break;
+
+    case 'library':
+    case 'series':
     case 'devices':
     case 'pause':
     case 'stop':
@@ -214,12 +418,75 @@ export function parseCLI(argv: string[]): CLIResult {
       }
       break;
 
-    case 'play':
+    case 'collection':
+    case 'playlist': {
+      const subcommands = command === 'collection' ? COLLECTION_SUBCOMMANDS : PLAYLIST_SUBCOMMANDS;
       if (positional.length < 2) {
-        result.error = 'play requires a book id argument';
+        result.error = `${command} requires a subcommand (${subcommands.join(', ')})`;
+        result.exitCode = 2;
+        break;
+      }
+      if (!subcommands.includes(positional[1])) {
+        result.error = `Unknown ${command} subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+        break;
+      }
+
+      result.subcommand = positional[1];
+      if (result.subcommand !== 'list') {
+        if (positional.length < 3) {
+          result.error = `${command} ${result.subcommand} requires a ${command} name`;
+          result.exitCode = 2;
+          break;
+        }
+        result.args.name = positional[2];
+      }
+      if (result.subcommand === 'add' || result.subcommand === 'remove') {
+        if (positional.length < 4) {
+          result.error = `${command} ${result.subcommand} requires a book title or id`;
+          result.exitCode = 2;
+          break;
+        }
+        result.args.id = positional.slice(3).join(' ');
+      }
+      if (result.args.episode !== undefined) {
+        if (command !== 'playlist' || result.subcommand !== 'add') {
+          result.error = '--episode is only supported by "playlist add"';
+          result.exitCode = 2;
+        } else if (!isEpisodeSelector(result.args.episode)) {
+          result.error = '--episode must be "latest" or an episode number from "abs episodes"';
+          result.exitCode = 2;
+        }
+      }
+      break;
+    }
+
+    case 'play':
+      if (result.args.playlist !== undefined) {
+        if (
+          positional.length > 1 ||
+          result.args.episode !== undefined ||
+          result.args.series !== undefined
+        ) {
+          result.error = '--playlist cannot be combined with a title, --episode or --series';
+          result.exitCode = 2;
+        }
+      } else if (result.args.series !== undefined) {
+        if (positional.length > 1 || result.args.episode !== undefined) {
+          result.error = '--series cannot be combined with a title or --episode';
+          result.exitCode = 2;
+        }
+      } else if (result.flags.next) {
+        result.error = '--next requires --series <name>';
+        result.exitCode = 2;
+      } else if (positional.length < 2) {
+        result.error = 'play requires a book title or id argument';
+        result.exitCode = 2;
+      } else if (result.args.episode !== undefined && !isEpisodeSelector(result.args.episode)) {
+        result.error = '--episode must be "latest" or an episode number from "abs episodes"';
         result.exitCode = 2;
       } else {
-        result.args.id = positional[1];
+        result.args.id = positional.slice(1).join(' ');
       }
       break;
 
@@ -256,8 +523,6 @@ export function parseCLI(argv: string[]): CLIResult {
           result.exitCode = 2;
         } else {
           result.args.minutes = minutes;
-          // Set default fade duration if not specified
-          result.args.fade = result.args.fade ?? 30;
         }
       }
       break;
@@ -277,11 +542,108 @@ export function parseCLI(argv: string[]): CLIResult {
         result.exitCode = 2;
       }
       break;
+
+    case 'daemon':
+      if (positional.length < 2) {
+        result.error = 'daemon requires a subcommand (run, start, stop, status)';
+        result.exitCode = 2;
+      } else if (DAEMON_SUBCOMMANDS.includes(positional[1])) {
+        result.subcommand = positional[1];
+      } else {
+        result.error = `Unknown daemon subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+      }
+      break;
+
+    case 'seek':
+      if (positional.length < 2) {
+        result.error = 'seek requires a position (e.g. +30s, -1m, 1:23:45, 50%)';
+        result.exitCode = 2;
+      } else if (!parseSeekTarget(positional[1])) {
+        result.error = `Invalid seek position: ${positional[1]}`;
+        result.exitCode = 2;
+      } else {
+        result.args.position = positional[1];
+      }
+      break;
+
+    case 'speed':
+      // Without a value, speed shows the current speed
+      if (positional.length >= 2) {
+        const speed = Number(positional[1].replace(/x$/i, ''));
+        if (positional[1].trim() === '' || !(speed >= MIN_SPEED && speed <= MAX_SPEED)) {
+          result.error = `Invalid speed: ${positional[1]} (${String(MIN_SPEED)}-${String(MAX_SPEED)})`;
+          result.exitCode = 2;
+        } else {
+          result.args.speed = speed;
+        }
+      }
+      break;
+
+    case 'bookmark':
+      if (positional.length < 2) {
+        result.error = 'bookmark requires a subcommand (add, list, goto, rm)';
+        result.exitCode = 2;
+      } else if (!BOOKMARK_SUBCOMMANDS.includes(positional[1])) {
+        result.error = `Unknown bookmark subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+      } else {
+        result.subcommand = positional[1];
+        if (positional[1] === 'goto' || positional[1] === 'rm') {
+          const bookmark = positional.length >= 3 ? parseInt(positional[2], 10) : NaN;
+          if (isNaN(bookmark) || bookmark < 1) {
+            result.error = `bookmark ${positional[1]} requires a bookmark number`;
+            result.exitCode = 2;
+          } else {
+            result.args.bookmark = bookmark;
+          }
+        }
+      }
+      break;
+
+    case 'chapter':
+      if (positional.length < 2) {
+        result.error = 'chapter requires a subcommand (list, next, prev, goto)';
+        result.exitCode = 2;
+      } else if (!CHAPTER_SUBCOMMANDS.includes(positional[1])) {
+        result.error = `Unknown chapter subcommand: ${positional[1]}`;
+        result.exitCode = 2;
+      } else {
+        result.subcommand = positional[1];
+        if (positional[1] === 'goto') {
+          const chapter = positional.length >= 3 ? parseInt(positional[2], 10) : NaN;
+          if (isNaN(chapter) || chapter < 1) {
+            result.error = 'chapter goto requires a chapter number';
+            result.exitCode = 2;
+          } else {
+            result.args.chapter = chapter;
+          }
+        }
+      }
+      break;
   }
 
   return result;
 }
 
+/**
+ * Validate --limit and --page and store them as numbers
+ */
+function applyPaging(result: CLIResult, paging: { limit?: string; page?: string }): void {
+  const limit = paging.limit === undefined ? undefined : parseInt(paging.limit, 10);
+  const page = paging.page === undefined ? undefined : parseInt(paging.page, 10);
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    result.error = '--limit must be a positive number';
+    result.exitCode = 2;
+  } else if (page !== undefined && (isNaN(page) || page <= 0)) {
+    result.error = '--page must be a positive number';
+    result.exitCode = 2;
+  } else {
+    result.args.limit = limit;
+    result.args.page = page;
+  }
+}
+
 /**
  * Get help text for all commands
  */
@@ -289,36 +651,111 @@ export function getHelpText(): string {
   return `Usage: abs <command> [options]
 
 Commands:
+  login --user <name> [--server <url>]
+                              Log in with a password and save the token
+  profile list                List profiles
+  profile use <name>          Switch the active profile
+  profile add <name> [--server <url>] (--user <name> | --token <token>)
+                              Add a profile by logging in or with a token
+  profile remove <name>       Remove a profile
   library                     List libraries
   books [--library <id>]      List books
+        [--sort <field>] [--desc] [--filter <kind>:<value>]
+        [--limit <n>] [--page <n>]
   search "<query>"            Search library
-  play <id> [--device <name>] Start playback
-  resume [--device <name>]    Resume last book
+  play <title|id> [--device <name>] [--first]
+                              Start playback (--first picks the best match)
+  play <podcast> --episode latest|<n>
+                              Play a podcast episode (n from "abs episodes")
+  play --series "<name>" [--next]
+                              Play a series from the start (--next: first unfinished book)
+  play --playlist "<name>"    Play a playlist, advancing when each item finishes
+  episodes <podcast>          List podcast episodes, newest first
+  series [--library <id>]     List series with read progress
+  collection list             List collections
+  collection create "<name>" [--library <id>]
+                              Create a collection
+  collection add "<name>" <title|id>
+                              Add a book to a collection
+  collection remove "<name>" <title|id>
+                              Remove a book from a collection
+  collection delete "<name>"  Delete a collection
+  playlist list               List your playlists
+  playlist create "<name>" [--library <id>]
+                              Create a playlist
+  playlist add "<name>" <title|id> [--episode latest|<n>]
+                              Add a book or podcast episode to a playlist
+  playlist remove "<name>" <title|id>
+                              Remove an item from a playlist
+  playlist delete "<name>"    Delete a playlist
+  resume [--device <name>]    Resume playback or last book
+  finish <title|id...>        Mark books finished
+  unfinish <title|id...>      Mark books not finished
+  progress reset <title|id>   Discard progress for a book
   pause                       Pause current playback
   stop                        Stop and sync progress
   status                      Show current playback status
+  seek <position>             Seek (+30s, -1m, 1:23:45, 50%)
+  speed [<0.5-3.0>]           Show or set playback speed (e.g. 1.5, 1.25x)
+  chapter list                List chapters of the current book
+  chapter next                Skip to the next chapter
+  chapter prev                Go back to the previous chapter
+  chapter goto <n>            Jump to chapter n
+  bookmark add [--title <text>]
+                              Bookmark the current position
+  bookmark list               List bookmarks of the current book
+  bookmark goto <n>           Jump to bookmark n
+  bookmark rm <n>             Delete bookmark n
+  stats [--period week|month|year]
+                              Show listening time and most listened books
+  history [--limit <n>] [--page <n>]
+                              Show recent listening sessions
   devices                     List Cast devices (with IDs)
   device set "<name>"         Set default device
-  sleep <min> [--fade <sec>]  Set sleep timer (fade default: 30s)
+  sleep <min>                 Pause playback after <min> minutes
   sleep cancel                Cancel sleep timer
   sleep status                Show timer status
   service run                 Run proxy server (foreground)
   service start               Start proxy daemon
   service stop                Stop proxy daemon
   service status              Show proxy status
+  daemon run                  Run playback daemon (foreground)
+  daemon start                Start playback daemon in background
+  daemon stop                 Stop playback daemon
+  daemon status               Show playback daemon status
 
 Options:
   -h, --help                  Show this help
   -v, --version               Show version
   -d, --device <name>         Target Cast device
-  -f, --fade <seconds>        Fade duration for sleep timer
+  -p, --profile <name>        Use a profile for this command
+  --sort <field>              Sort books by title, author, added, duration or published
+  --desc                      Sort descending
+  --filter <kind>:<value>     Filter books (author, series, narrator, genre, tag, progress)
+  --limit <n>                 Show at most n books or sessions (page size with --page)
+  --page <n>                  Show page n of the book list or history
+  --first                     Pick the best match when a title is ambiguous
+  --series <name>             Play a series by name
+  --next                      With --series, play the first unfinished book
+  --playlist <name>           Play a playlist in order
+  --title <text>              Bookmark title (default: the current time)
+  --period <period>           Stats period: week, month or year (default: week)
   --json                      Output as JSON
 
 Environment Variables:
   ABS_SERVER                  Audiobookshelf server URL
   ABS_TOKEN                   API token
   ABS_DEVICE                  Default Cast device name
+  ABS_PROFILE                 Profile to use (overrides activeProfile)
+  ABS_PASSWORD                Password for login (prompted if unset)
+  ABS_TIMEOUT                 Request timeout in milliseconds (default: 10000)
+  ABS_RETRIES                 Retries for failed GET requests (default: 2)
   ABS_PROXY_PORT              Proxy server port (default: 8765)
+  ABS_DAEMON_SOCKET           Playback daemon control socket path
+  ABS_PUBLIC_URL              URL Cast devices use to reach the proxy
+  ABS_STREAM_SECRET           Secret for signing proxy stream tokens
+  ABS_STREAM_MODE             Cast stream: progressive or hls (default: progressive)
+  ABS_OUTPUT_FORMAT           Stream codec: mp3, aac, opus, flac or wav (default: mp3)
 
 Exit Codes:
   0  Success
@@ -5,28 +5,364 @@
  * @see https://api.audiobookshelf.org/
  */
 
+import { setTimeout as sleep } from 'timers/promises';
 import type { AudiobookshelfConfig } from './config.js';
-import type { Book, Library, PlaybackSession, Progress } from './types.js';
+import type {
+  AudioTrack,
+  Book,
+  Bookmark,
+  BookDetails,
+  Chapter,
+  Collection,
+  InProgressBook,
+  ItemPage,
+  Library,
+  ListeningSessionPage,
+  ListeningStats,
+  LoginResult,
+  PlaybackSession,
+  Playlist,
+  PlaylistItem,
+  PodcastEpisode,
+  Progress,
+  ProgressUpdate,
+  SearchResults,
+  Series,
+  SeriesBook,
+  SessionSync,
+} from './types.js';
+import { encodeItemFilter, type ItemFilter } from './listing.js';
 
 /**
  * Options for getStreamUrl
  */
 interface StreamUrlOptions {
-  /** Include authentication token in URL query string */
-  includeToken?: boolean;
+  /** Podcast episode to stream */
+  episodeId?: string;
+}
+
+/**
+ * Options for getCoverUrl
+ */
+export interface CoverUrlOptions {
+  /** Resize the cover to this width in pixels */
+  width?: number;
+  /** Resize the cover to this height in pixels */
+  height?: number;
+  /** Image format to convert the cover to */
+  format?: 'jpeg' | 'webp';
+}
+
+/**
+ * Options for listing library items
+ */
+export interface ItemListOptions {
+  /** Server sort field, e.g. `media.metadata.title` or `addedAt` */
+  sort?: string;
+  /** Sort descending */
+  desc?: boolean;
+  filter?: ItemFilter;
+  /** Items per request (default 100) */
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Options for listing listening sessions
+ */
+export interface ListeningSessionOptions {
+  /** 0-based page index */
+  page?: number;
+  /** Sessions per page (default 10) */
+  pageSize?: number;
+}
+
+const DEFAULT_SESSION_PAGE_SIZE = 10;
+
+/**
+ * Request details attached to API errors
+ */
+export interface ApiErrorDetails {
+  method: string;
+  endpoint: string;
+  /** Response body (truncated), if the server sent one */
+  body?: string;
 }
 
 /**
  * Custom error for API errors
  */
 export class AudiobookshelfApiError extends Error {
+  public readonly method?: string;
+  public readonly endpoint?: string;
+  public readonly body?: string;
+
   constructor(
     public readonly status: number,
-    public readonly statusText: string
+    public readonly statusText: string,
+    details?: ApiErrorDetails
   ) {
-    super(`API error: ${String(status)} ${statusText}`);
+    const request = details ? ` (${details.method} ${details.endpoint})` : '';
+    const body = details?.body ? `: ${details.body}` : '';
+    super(`API error: ${String(status)} ${statusText}${request}${body}`);
     this.name = 'AudiobookshelfApiError';
+    this.method = details?.method;
+    this.endpoint = details?.endpoint;
+    this.body = details?.body;
+  }
+}
+
+/**
+ * Error thrown when the server does not answer within the configured timeout
+ */
+export class AudiobookshelfTimeoutError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly endpoint: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Request timed out after ${String(timeoutMs)}ms (${method} ${endpoint})`);
+    this.name = 'AudiobookshelfTimeoutError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Read an error response body for diagnostics, if there is one
+ */
+async function readErrorBody(response: Response): Promise<string | undefined> {
+  try {
+    const text = (await response.text()).trim();
+    return text ? text.slice(0, MAX_ERROR_BODY_LENGTH) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the body of a successful write request
+ *
+ * Many write endpoints answer with a plain "OK" rather than JSON; those
+ * resolve to undefined.
+ */
+async function readWriteResponse(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delay requested by a 429 response's Retry-After header, in milliseconds
+ */
+function getRetryAfterMs(response: Response): number | null {
+  const value = response.status === 429 ? response.headers.get('retry-after') : null;
+  const seconds = value === null ? NaN : Number(value);
+  return isNaN(seconds) ? null : seconds * 1000;
+}
+
+/**
+ * Library item as returned by list and search endpoints (book or podcast)
+ */
+interface LibraryItemResponse {
+  id: string;
+  libraryId: string;
+  media: {
+    coverPath?: string;
+    metadata: {
+      title: string;
+      /** Podcast author */
+      author?: string;
+      authorName?: string;
+      narratorName?: string;
+      authors?: { name: string }[];
+      narrators?: string[];
+    };
+    /** Book duration - podcasts have none at the item level */
+    duration?: number;
+  };
+}
+
+/**
+ * Map a book or podcast library item to a Book
+ */
+function toBook(item: LibraryItemResponse): Book {
+  const metadata = item.media.metadata;
+  return {
+    id: item.id,
+    libraryId: item.libraryId,
+    title: metadata.title,
+    author: metadata.authorName ?? metadata.authors?.[0]?.name ?? metadata.author,
+    narrator: metadata.narratorName ?? metadata.narrators?.[0],
+    duration: item.media.duration ?? 0,
+    coverPath: item.media.coverPath,
+  };
+}
+
+/**
+ * Reference to a series from a book's metadata
+ */
+interface SeriesRef {
+  id: string;
+  name: string;
+  sequence?: string | null;
+}
+
+/**
+ * Library item listed under a series
+ */
+interface SeriesItemResponse extends LibraryItemResponse {
+  /** Sequence in the series (library series endpoint) */
+  sequence?: string | null;
+  media: LibraryItemResponse['media'] & {
+    metadata: LibraryItemResponse['media']['metadata'] & {
+      /** The filtered series when listing by series, otherwise every series of the book */
+      series?: SeriesRef | SeriesRef[];
+    };
+  };
+}
+
+/**
+ * Map a library item to a SeriesBook with its sequence in the given series
+ */
+function toSeriesBook(item: SeriesItemResponse, seriesId: string): SeriesBook {
+  const series = item.media.metadata.series;
+  const ref = Array.isArray(series) ? series.find((entry) => entry.id === seriesId) : series;
+  return { ...toBook(item), sequence: item.sequence ?? ref?.sequence ?? undefined };
+}
+
+/**
+ * Order books by numeric sequence; books without one go last
+ */
+function compareSequence(a: SeriesBook, b: SeriesBook): number {
+  const key = (book: SeriesBook): number => {
+    const sequence = parseFloat(book.sequence ?? '');
+    return isNaN(sequence) ? Number.MAX_VALUE : sequence;
+  };
+  return key(a) - key(b);
+}
+
+/**
+ * Collection as returned by the collections endpoints (books expanded)
+ */
+interface CollectionResponse {
+  id: string;
+  libraryId: string;
+  name: string;
+  description?: string | null;
+  books?: LibraryItemResponse[];
+}
+
+/**
+ * Map a collection response to a Collection
+ */
+function toCollection(collection: CollectionResponse): Collection {
+  return {
+    id: collection.id,
+    libraryId: collection.libraryId,
+    name: collection.name,
+    description: collection.description ?? undefined,
+    books: (collection.books ?? []).map(toBook),
+  };
+}
+
+/**
+ * Playlist as returned by the playlists endpoints (items expanded)
+ */
+interface PlaylistResponse {
+  id: string;
+  libraryId: string;
+  name: string;
+  description?: string | null;
+  items?: {
+    libraryItemId: string;
+    episodeId?: string | null;
+    libraryItem?: LibraryItemResponse;
+    episode?: { title: string; duration?: number; audioFile?: { duration: number } };
+  }[];
+}
+
+/**
+ * Map a playlist response to a Playlist
+ */
+function toPlaylist(playlist: PlaylistResponse): Playlist {
+  return {
+    id: playlist.id,
+    libraryId: playlist.libraryId,
+    name: playlist.name,
+    description: playlist.description ?? undefined,
+    items: (playlist.items ?? []).map((item): PlaylistItem => {
+      const book = item.libraryItem ? toBook(item.libraryItem) : undefined;
+      if (item.episodeId) {
+        return {
+          bookId: item.libraryItemId,
+          episodeId: item.episodeId,
+          title: item.episode?.title ?? item.episodeId,
+          author: book?.title,
+          duration: item.episode?.duration ?? item.episode?.audioFile?.duration ?? 0,
+        };
+      }
+      return {
+        bookId: item.libraryItemId,
+        title: book?.title ?? item.libraryItemId,
+        author: book?.author,
+        duration: book?.duration ?? 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Playlist item reference sent to the server
+ */
+function playlistItemBody(bookId: string, episodeId?: string): Record<string, string> {
+  return episodeId ? { libraryItemId: bookId, episodeId } : { libraryItemId: bookId };
+}
+
+/**
+ * Query parameters for one page of library items
+ */
+function itemsPageParams(page: number, pageSize: number, options: ItemListOptions): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(pageSize), page: String(page) });
+  if (options.sort) {
+    params.set('sort', options.sort);
   }
+  if (options.desc) {
+    params.set('desc', '1');
+  }
+  if (options.filter) {
+    params.set('filter', encodeItemFilter(options.filter));
+  }
+  return params;
+}
+
+/**
+ * Path segment identifying a book or podcast episode
+ */
+function itemPath(bookId: string, episodeId?: string): string {
+  return episodeId ? `${bookId}/${episodeId}` : bookId;
+}
+
+/**
+ * Merge entries that share a name (e.g. the same narrator in two libraries)
+ */
+function mergeByName<T extends { name: string }>(items: T[], combine: (a: T, b: T) => T): T[] {
+  const merged = new Map<string, T>();
+  for (const item of items) {
+    const existing = merged.get(item.name);
+    merged.set(item.name, existing ? combine(existing, item) : item);
+  }
+  return [...merged.values()];
 }
 
 /**
@@ -34,36 +370,185 @@ export class AudiobookshelfApiError extends Error {
  */
 export class AudiobookshelfClient {
   private readonly config: AudiobookshelfConfig;
+  private apiKey: string;
+  private refreshToken: string | undefined;
+  private refreshing: Promise<void> | null = null;
 
   constructor(config: AudiobookshelfConfig) {
     this.config = config;
+    this.apiKey = config.apiKey;
+    this.refreshToken = config.refreshToken;
   }
 
   /**
    * Make an authenticated request to the Audiobookshelf API
+   *
+   * Every attempt is bounded by the configured timeout. GET requests are
+   * retried with exponential backoff on timeouts, network failures and
+   * 5xx/429 responses; other methods are never retried. A 401 triggers one
+   * token refresh when a refresh token is available.
+   *
+   * @param authenticate - Send the access token (false for login and refresh)
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    authenticate = true
   ): Promise<T> {
     const url = `${this.config.url}${endpoint}`;
+    const method = options.method ?? 'GET';
     const existingHeaders = (options.headers as Record<string, string> | undefined) ?? {};
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.config.apiKey}`,
+    const buildHeaders = (): Record<string, string> => ({
+      ...(authenticate ? { Authorization: `Bearer ${this.apiKey}` } : {}),
       'Content-Type': 'application/json',
       ...existingHeaders,
-    };
+    });
+    let refreshed = false;
+    const timeoutMs = this.config.timeout ?? DEFAULT_TIMEOUT_MS;
+    const attempts = method === 'GET' ? (this.config.retries ?? DEFAULT_RETRIES) + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const retryDelay = (this.config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1);
+      const canRetry = attempt < attempts;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          headers: buildHeaders(),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        if (canRetry) {
+          await sleep(Math.min(retryDelay, MAX_RETRY_DELAY_MS));
+          continue;
+        }
+        if (error instanceof DOMException && error.name === 'TimeoutError') {
+          throw new AudiobookshelfTimeoutError(method, endpoint, timeoutMs);
+        }
+        throw error;
+      }
+
+      if (response.ok) {
+        return (method === 'GET' ? response.json() : readWriteResponse(response)) as Promise<T>;
+      }
+
+      if (response.status === 401 && authenticate && this.refreshToken && !refreshed) {
+        refreshed = await this.refreshAccessToken().then(
+          () => true,
+          () => false
+        );
+        if (refreshed) {
+          attempt--;
+          continue;
+        }
+      }
+
+      if (canRetry && (response.status === 429 || response.status >= 500)) {
+        await sleep(Math.min(getRetryAfterMs(response) ?? retryDelay, MAX_RETRY_DELAY_MS));
+        continue;
+      }
+
+      throw new AudiobookshelfApiError(response.status, response.statusText, {
+        method,
+        endpoint,
+        body: await readErrorBody(response),
+      });
+    }
+  }
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
+  /**
+   * Get the current access token
+   *
+   * Changes after a token refresh, so callers that authenticate their own
+   * requests should read it each time instead of keeping a copy.
+   */
+  getAccessToken(): string {
+    return this.apiKey;
+  }
+
+  /**
+   * Check whether the client can refresh its access token
+   */
+  canRefresh(): boolean {
+    return this.refreshToken !== undefined;
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   *
+   * Concurrent callers share a single refresh request.
+   */
+  refreshAccessToken(): Promise<void> {
+    interface RefreshResponse {
+      user: {
+        accessToken: string;
+        refreshToken?: string;
+      };
+    }
+
+    this.refreshing ??= (async () => {
+      const response = await this.request<RefreshResponse>(
+        '/auth/refresh',
+        {
+          method: 'POST',
+          headers: { 'x-refresh-token': this.refreshToken ?? '' },
+        },
+        false
+      );
+
+      this.apiKey = response.user.accessToken;
+      this.refreshToken = response.user.refreshToken ?? this.refreshToken;
+      await this.config.onTokenRefresh?.({ token: this.apiKey, refreshToken: this.refreshToken });
+    })().finally(() => {
+      this.refreshing = null;
     });
 
-    if (!response.ok) {
-      throw new AudiobookshelfApiError(response.status, response.statusText);
+    return this.refreshing;
+  }
+
+  /**
+   * Log in with a username and password
+   *
+   * The client uses the returned token for subsequent requests. Servers
+   * v2.26+ also return a refresh token; older servers return a legacy
+   * non-expiring token only.
+   */
+  async login(username: string, password: string): Promise<LoginResult> {
+    interface LoginResponse {
+      user: {
+        id: string;
+        username: string;
+        token?: string;
+        accessToken?: string;
+        refreshToken?: string;
+      };
+    }
+
+    const response = await this.request<LoginResponse>(
+      '/login',
+      {
+        method: 'POST',
+        headers: { 'x-return-tokens': 'true' },
+        body: JSON.stringify({ username, password }),
+      },
+      false
+    );
+
+    const token = response.user.accessToken ?? response.user.token;
+    if (!token) {
+      throw new Error('Login response did not include a token');
     }
 
-    return response.json() as Promise<T>;
+    this.apiKey = token;
+    this.refreshToken = response.user.refreshToken;
+
+    return {
+      userId: response.user.id,
+      username: response.user.username,
+      token,
+      refreshToken: response.user.refreshToken,
+    };
   }
 
   /**
@@ -80,97 +565,447 @@ export class AudiobookshelfClient {
    * List books in a library
    */
   async getBooks(libraryId: string): Promise<Book[]> {
-    interface LibraryItem {
+    const response = await this.request<{ results: LibraryItemResponse[] }>(
+      `/api/libraries/${libraryId}/items`
+    );
+    return response.results.map(toBook);
+  }
+
+  /**
+   * Fetch one page of items in a library
+   *
+   * @param page - 0-based page index
+   */
+  async getItemsPage(
+    libraryId: string,
+    page: number,
+    options: ItemListOptions = {}
+  ): Promise<ItemPage> {
+    interface LibraryItemPageResponse {
+      results: LibraryItemResponse[];
+      total: number;
+    }
+
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const params = itemsPageParams(page, pageSize, options);
+
+    const response = await this.request<LibraryItemPageResponse>(
+      `/api/libraries/${libraryId}/items?${params.toString()}`
+    );
+
+    return {
+      books: response.results.map(toBook),
+      total: response.total,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * Iterate over all items in a library, fetching one page at a time
+   */
+  async *iterateItems(libraryId: string, options: ItemListOptions = {}): AsyncGenerator<Book> {
+    for (let page = 0; ; page++) {
+      const { books, total, pageSize } = await this.getItemsPage(libraryId, page, options);
+      yield* books;
+      if (books.length < pageSize || (page + 1) * pageSize >= total) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * List the series in a library with their books in sequence order
+   */
+  async getSeries(libraryId: string): Promise<Series[]> {
+    interface SeriesResponse {
+      id: string;
+      name: string;
+      books?: SeriesItemResponse[];
+    }
+
+    interface SeriesPageResponse {
+      results: SeriesResponse[];
+      total: number;
+    }
+
+    const series: Series[] = [];
+    for (let page = 0; ; page++) {
+      const params = new URLSearchParams({ limit: String(DEFAULT_PAGE_SIZE), page: String(page) });
+      const response = await this.request<SeriesPageResponse>(
+        `/api/libraries/${libraryId}/series?${params.toString()}`
+      );
+
+      series.push(
+        ...response.results.map((result) => ({
+          id: result.id,
+          libraryId,
+          name: result.name,
+          books: (result.books ?? [])
+            .map((book) => toSeriesBook(book, result.id))
+            .sort(compareSequence),
+        }))
+      );
+
+      if (response.results.length < DEFAULT_PAGE_SIZE || series.length >= response.total) {
+        return series;
+      }
+    }
+  }
+
+  /**
+   * List the books in a series, ordered by sequence
+   */
+  async getSeriesBooks(seriesId: string): Promise<SeriesBook[]> {
+    interface SeriesItemPageResponse {
+      results: SeriesItemResponse[];
+      total: number;
+    }
+
+    const series = await this.request<{ id: string; libraryId: string }>(
+      `/api/series/${seriesId}`
+    );
+    const options: ItemListOptions = { filter: { group: 'series', value: seriesId } };
+
+    const books: SeriesBook[] = [];
+    for (let page = 0; ; page++) {
+      const params = itemsPageParams(page, DEFAULT_PAGE_SIZE, options);
+      const response = await this.request<SeriesItemPageResponse>(
+        `/api/libraries/${series.libraryId}/items?${params.toString()}`
+      );
+      books.push(...response.results.map((item) => toSeriesBook(item, seriesId)));
+
+      if (response.results.length < DEFAULT_PAGE_SIZE || books.length >= response.total) {
+        return books.sort(compareSequence);
+      }
+    }
+  }
+
+  /**
+   * List the collections in every library
+   */
+  async getCollections(): Promise<Collection[]> {
+    const response = await this.request<{ collections: CollectionResponse[] }>(
+      '/api/collections'
+    );
+    return response.collections.map(toCollection);
+  }
+
+  /**
+   * Create a collection, optionally with initial books
+   */
+  async createCollection(
+    libraryId: string,
+    name: string,
+    bookIds: string[] = []
+  ): Promise<Collection> {
+    const response = await this.request<CollectionResponse>('/api/collections', {
+      method: 'POST',
+      body: JSON.stringify({ libraryId, name, books: bookIds }),
+    });
+    return toCollection(response);
+  }
+
+  /**
+   * Add a book to a collection
+   * @returns The updated collection
+   */
+  async addToCollection(collectionId: string, bookId: string): Promise<Collection> {
+    const response = await this.request<CollectionResponse>(
+      `/api/collections/${collectionId}/book`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ id: bookId }),
+      }
+    );
+    return toCollection(response);
+  }
+
+  /**
+   * Remove a book from a collection
+   */
+  async removeFromCollection(collectionId: string, bookId: string): Promise<void> {
+    await this.request<undefined>(`/api/collections/${collectionId}/book/${bookId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Delete a collection (the books themselves are kept)
+   */
+  async deleteCollection(collectionId: string): Promise<void> {
+    await this.request<undefined>(`/api/collections/${collectionId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * List the user's playlists in every library
+   */
+  async getPlaylists(): Promise<Playlist[]> {
+    const response = await this.request<{ playlists: PlaylistResponse[] }>('/api/playlists');
+    return response.playlists.map(toPlaylist);
+  }
+
+  /**
+   * Create a playlist, optionally with initial items
+   */
+  async createPlaylist(
+    libraryId: string,
+    name: string,
+    items: { bookId: string; episodeId?: string }[] = []
+  ): Promise<Playlist> {
+    const response = await this.request<PlaylistResponse>('/api/playlists', {
+      method: 'POST',
+      body: JSON.stringify({
+        libraryId,
+        name,
+        items: items.map((item) => playlistItemBody(item.bookId, item.episodeId)),
+      }),
+    });
+    return toPlaylist(response);
+  }
+
+  /**
+   * Append a book or podcast episode to a playlist
+   * @returns The updated playlist
+   */
+  async addToPlaylist(playlistId: string, bookId: string, episodeId?: string): Promise<Playlist> {
+    const response = await this.request<PlaylistResponse>(`/api/playlists/${playlistId}/item`, {
+      method: 'POST',
+      body: JSON.stringify(playlistItemBody(bookId, episodeId)),
+    });
+    return toPlaylist(response);
+  }
+
+  /**
+   * Remove a book or podcast episode from a playlist
+   *
+   * The server deletes a playlist when its last item is removed.
+   */
+  async removeFromPlaylist(playlistId: string, bookId: string, episodeId?: string): Promise<void> {
+    await this.request<undefined>(
+      `/api/playlists/${playlistId}/item/${itemPath(bookId, episodeId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * Delete a playlist
+   */
+  async deletePlaylist(playlistId: string): Promise<void> {
+    await this.request<undefined>(`/api/playlists/${playlistId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Get a library item with chapters, audio tracks and full metadata
+   */
+  async getItem(itemId: string): Promise<BookDetails> {
+    interface ItemResponse {
       id: string;
       libraryId: string;
+      mediaType?: 'book' | 'podcast';
       media: {
         coverPath?: string;
         metadata: {
           title: string;
+          subtitle?: string;
+          /** Podcast author */
+          author?: string;
           authorName?: string;
           narratorName?: string;
+          seriesName?: string;
+          description?: string;
+          publishedYear?: string;
+          genres?: string[];
         };
-        duration: number;
+        /** Book duration - podcasts have none at the item level */
+        duration?: number;
+        chapters?: Chapter[];
+        tracks?: AudioTrack[];
       };
     }
 
-    interface LibraryItemResponse {
-      results: LibraryItem[];
-    }
-
-    const response = await this.request<LibraryItemResponse>(
-      `/api/libraries/${libraryId}/items`
+    const item = await this.request<ItemResponse>(
+      `/api/items/${itemId}?expanded=1`
     );
+    const metadata = item.media.metadata;
 
-    return response.results.map((item) => ({
+    return {
       id: item.id,
       libraryId: item.libraryId,
-      title: item.media.metadata.title,
-      author: item.media.metadata.authorName,
-      narrator: item.media.metadata.narratorName,
-      duration: item.media.duration,
+      mediaType: item.mediaType ?? 'book',
+      title: metadata.title,
+      subtitle: metadata.subtitle,
+      author: metadata.authorName ?? metadata.author,
+      narrator: metadata.narratorName,
+      series: metadata.seriesName,
+      description: metadata.description,
+      publishedYear: metadata.publishedYear,
+      genres: metadata.genres ?? [],
+      duration: item.media.duration ?? 0,
       coverPath: item.media.coverPath,
-    }));
+      chapters: (item.media.chapters ?? []).map((chapter) => ({
+        id: chapter.id,
+        start: chapter.start,
+        end: chapter.end,
+        title: chapter.title,
+      })),
+      audioTracks: (item.media.tracks ?? []).map((track) => ({
+        index: track.index,
+        startOffset: track.startOffset,
+        duration: track.duration,
+        title: track.title,
+        contentUrl: track.contentUrl,
+        mimeType: track.mimeType,
+      })),
+    };
   }
 
   /**
-   * Search within a library
+   * List the episodes of a podcast, newest first
    */
-  async search(query: string, libraryId?: string): Promise<Book[]> {
-    // If no libraryId provided, search first library
-    if (!libraryId) {
-      const libraries = await this.getLibraries();
-      if (libraries.length === 0) {
-        return [];
-      }
-      libraryId = libraries[0].id;
+  async getPodcastEpisodes(itemId: string): Promise<PodcastEpisode[]> {
+    interface EpisodeResponse {
+      id: string;
+      index?: number;
+      title: string;
+      season?: string;
+      episode?: string;
+      description?: string;
+      publishedAt?: number;
+      duration?: number;
+      audioFile?: { duration: number };
+      chapters?: Chapter[];
     }
 
-    interface SearchResultItem {
-      libraryItem: {
-        id: string;
-        libraryId: string;
-        media: {
-          coverPath?: string;
-          metadata: {
-            title: string;
-            authorName?: string;
-            narratorName?: string;
-            authors?: { name: string }[];
-            narrators?: string[];
-          };
-          duration: number;
-        };
+    interface PodcastResponse {
+      mediaType?: 'book' | 'podcast';
+      media: {
+        episodes?: EpisodeResponse[];
+      };
+    }
+
+    const item = await this.request<PodcastResponse>(`/api/items/${itemId}?expanded=1`);
+    if (item.mediaType !== 'podcast') {
+      throw new Error(`Item ${itemId} is not a podcast`);
+    }
+
+    return (item.media.episodes ?? [])
+      .sort((a, b) => (b.publishedAt ?? 0) - (a.publishedAt ?? 0) || (b.index ?? 0) - (a.index ?? 0))
+      .map((episode) => ({
+        id: episode.id,
+        title: episode.title,
+        season: episode.season,
+        episode: episode.episode,
+        description: episode.description,
+        publishedAt: episode.publishedAt,
+        duration: episode.duration ?? episode.audioFile?.duration ?? 0,
+        chapters: episode.chapters ?? [],
+      }));
+  }
+
+  /**
+   * Search books, podcasts, authors, series, narrators and tags
+   *
+   * Searches every library unless a library ID is given. Narrators and tags
+   * found in several libraries are merged by name.
+   */
+  async search(query: string, libraryId?: string): Promise<SearchResults> {
+    interface SearchLibraryItem extends LibraryItemResponse {
+      media: LibraryItemResponse['media'] & {
+        numEpisodes?: number;
+        episodes?: unknown[];
       };
     }
 
     interface SearchResponse {
-      book?: SearchResultItem[];
+      book?: { libraryItem: SearchLibraryItem }[];
+      podcast?: { libraryItem: SearchLibraryItem }[];
+      authors?: { id: string; libraryId?: string; name: string; numBooks?: number }[];
+      series?: {
+        series: { id: string; libraryId?: string; name: string };
+        books?: SearchLibraryItem[];
+      }[];
+      narrators?: { name: string; numBooks?: number }[];
+      tags?: { name: string; numItems?: number }[];
     }
 
-    const response = await this.request<SearchResponse>(
-      `/api/libraries/${libraryId}/search?q=${encodeURIComponent(query)}`
+    const libraryIds = libraryId
+      ? [libraryId]
+      : (await this.getLibraries()).map((library) => library.id);
+
+    const responses = await Promise.all(
+      libraryIds.map(async (id) => ({
+        libraryId: id,
+        response: await this.request<SearchResponse>(
+          `/api/libraries/${id}/search?q=${encodeURIComponent(query)}`
+        ),
+      }))
     );
 
-    const books = response.book ?? [];
-    return books.map((item) => {
-      const metadata = item.libraryItem.media.metadata;
-      return {
-        id: item.libraryItem.id,
-        libraryId: item.libraryItem.libraryId,
-        title: metadata.title,
-        author: metadata.authorName ?? metadata.authors?.[0]?.name,
-        narrator: metadata.narratorName ?? metadata.narrators?.[0],
-        duration: item.libraryItem.media.duration,
-        coverPath: item.libraryItem.media.coverPath,
-      };
-    });
+    const results: SearchResults = {
+      books: [],
+      podcasts: [],
+      authors: [],
+      series: [],
+      narrators: [],
+      tags: [],
+    };
+
+    for (const { libraryId: id, response } of responses) {
+      results.books.push(...(response.book ?? []).map((result) => toBook(result.libraryItem)));
+      results.podcasts.push(
+        ...(response.podcast ?? []).map(({ libraryItem: item }) => ({
+          id: item.id,
+          libraryId: item.libraryId,
+          title: item.media.metadata.title,
+          author: item.media.metadata.author ?? item.media.metadata.authorName,
+          numEpisodes: item.media.numEpisodes ?? item.media.episodes?.length ?? 0,
+          coverPath: item.media.coverPath,
+        }))
+      );
+      results.authors.push(
+        ...(response.authors ?? []).map((author) => ({
+          id: author.id,
+          libraryId: author.libraryId ?? id,
+          name: author.name,
+          numBooks: author.numBooks ?? 0,
+        }))
+      );
+      results.series.push(
+        ...(response.series ?? []).map((result) => ({
+          id: result.series.id,
+          libraryId: result.series.libraryId ?? id,
+          name: result.series.name,
+          books: (result.books ?? []).map(toBook),
+        }))
+      );
+      results.narrators.push(
+        ...(response.narrators ?? []).map((narrator) => ({
+          name: narrator.name,
+          numBooks: narrator.numBooks ?? 0,
+        }))
+      );
+      results.tags.push(
+        ...(response.tags ?? []).map((tag) => ({ name: tag.name, numItems: tag.numItems ?? 0 }))
+      );
+    }
+
+    results.narrators = mergeByName(results.narrators, (a, b) => ({
+      name: a.name,
+      numBooks: a.numBooks + b.numBooks,
+    }));
+    results.tags = mergeByName(results.tags, (a, b) => ({
+      name: a.name,
+      numItems: a.numItems + b.numItems,
+    }));
+
+    return results;
   }
 
   /**
-   * Get progress for a book
+   * Get progress for a book, or for one episode of a podcast
    */
-  async getProgress(bookId: string): Promise<Progress | null> {
+  async getProgress(bookId: string, episodeId?: string): Promise<Progress | null> {
     interface ProgressResponse {
       progress: number;
       currentTime: number;
@@ -181,11 +1016,12 @@ export class AudiobookshelfClient {
 
     try {
       const response = await this.request<ProgressResponse>(
-        `/api/me/progress/${bookId}`
+        `/api/me/progress/${itemPath(bookId, episodeId)}`
       );
 
       return {
         bookId,
+        episodeId,
         currentTime: response.currentTime,
         duration: response.duration,
         progress: response.progress,
@@ -201,9 +1037,205 @@ export class AudiobookshelfClient {
   }
 
   /**
-   * Update progress for a book
+   * Get the user's progress for every book and episode they have started
    */
-  async updateProgress(bookId: string, currentTime: number): Promise<Progress> {
+  async getMediaProgress(): Promise<Progress[]> {
+    interface MediaProgressResponse {
+      libraryItemId: string;
+      episodeId?: string | null;
+      progress: number;
+      currentTime: number;
+      duration: number;
+      isFinished: boolean;
+      lastUpdate: number;
+    }
+
+    const response = await this.request<{ mediaProgress?: MediaProgressResponse[] }>('/api/me');
+
+    return (response.mediaProgress ?? []).map((entry) => ({
+      bookId: entry.libraryItemId,
+      episodeId: entry.episodeId ?? undefined,
+      currentTime: entry.currentTime,
+      duration: entry.duration,
+      progress: entry.progress,
+      isFinished: entry.isFinished,
+      lastUpdate: entry.lastUpdate,
+    }));
+  }
+
+  /**
+   * List the user's bookmarks, optionally for one book, ordered by position
+   */
+  async getBookmarks(bookId?: string): Promise<Bookmark[]> {
+    interface BookmarkResponse {
+      libraryItemId: string;
+      title: string;
+      time: number;
+      createdAt: number;
+    }
+
+    const response = await this.request<{ bookmarks?: BookmarkResponse[] }>('/api/me');
+
+    return (response.bookmarks ?? [])
+      .filter((bookmark) => !bookId || bookmark.libraryItemId === bookId)
+      .map((bookmark) => ({
+        bookId: bookmark.libraryItemId,
+        title: bookmark.title,
+        time: bookmark.time,
+        createdAt: bookmark.createdAt,
+      }))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Bookmark a position in a book
+   */
+  async createBookmark(bookId: string, time: number, title: string): Promise<Bookmark> {
+    interface BookmarkResponse {
+      libraryItemId: string;
+      title: string;
+      time: number;
+      createdAt: number;
+    }
+
+    const response = await this.request<BookmarkResponse>(`/api/me/item/${bookId}/bookmark`, {
+      method: 'POST',
+      body: JSON.stringify({ time, title }),
+    });
+
+    return {
+      bookId: response.libraryItemId,
+      title: response.title,
+      time: response.time,
+      createdAt: response.createdAt,
+    };
+  }
+
+  /**
+   * Delete the bookmark at a position in a book
+   */
+  async deleteBookmark(bookId: string, time: number): Promise<void> {
+    await this.request<undefined>(`/api/me/item/${bookId}/bookmark/${String(time)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get the user's listening statistics
+   */
+  async getListeningStats(): Promise<ListeningStats> {
+    interface ListeningStatsResponse {
+      totalTime?: number;
+      today?: number;
+      days?: Record<string, number>;
+      items?: Record<
+        string,
+        {
+          id: string;
+          timeListening: number;
+          mediaMetadata?: { title?: string; author?: string; authorName?: string };
+        }
+      >;
+    }
+
+    const response = await this.request<ListeningStatsResponse>('/api/me/listening-stats');
+
+    return {
+      totalTime: response.totalTime ?? 0,
+      today: response.today ?? 0,
+      days: response.days ?? {},
+      items: Object.values(response.items ?? {})
+        .map((item) => ({
+          bookId: item.id,
+          title: item.mediaMetadata?.title ?? item.id,
+          author: item.mediaMetadata?.authorName ?? item.mediaMetadata?.author,
+          timeListened: item.timeListening,
+        }))
+        .sort((a, b) => b.timeListened - a.timeListened),
+    };
+  }
+
+  /**
+   * Fetch one page of the user's listening sessions, most recent first
+   */
+  async getListeningSessions(
+    options: ListeningSessionOptions = {}
+  ): Promise<ListeningSessionPage> {
+    interface ListeningSessionResponse {
+      id: string;
+      libraryItemId: string;
+      episodeId?: string | null;
+      displayTitle?: string;
+      displayAuthor?: string;
+      timeListening?: number;
+      currentTime?: number;
+      duration?: number;
+      startedAt: number;
+      updatedAt: number;
+    }
+
+    interface ListeningSessionsResponse {
+      sessions: ListeningSessionResponse[];
+      total: number;
+    }
+
+    const page = options.page ?? 0;
+    const pageSize = options.pageSize ?? DEFAULT_SESSION_PAGE_SIZE;
+    const params = new URLSearchParams({ itemsPerPage: String(pageSize), page: String(page) });
+    const response = await this.request<ListeningSessionsResponse>(
+      `/api/me/listening-sessions?${params.toString()}`
+    );
+
+    return {
+      sessions: response.sessions.map((session) => ({
+        id: session.id,
+        bookId: session.libraryItemId,
+        episodeId: session.episodeId ?? undefined,
+        title: session.displayTitle ?? session.libraryItemId,
+        author: session.displayAuthor,
+        timeListened: session.timeListening ?? 0,
+        currentTime: session.currentTime ?? 0,
+        duration: session.duration ?? 0,
+        startedAt: session.startedAt,
+        updatedAt: session.updatedAt,
+      })),
+      total: response.total,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * List books the user has started, most recently listened first
+   */
+  async getItemsInProgress(): Promise<InProgressBook[]> {
+    interface InProgressItem extends LibraryItemResponse {
+      progressLastUpdate?: number;
+      /** Last played episode of a podcast */
+      recentEpisode?: { id: string; title: string };
+    }
+
+    const response = await this.request<{ libraryItems: InProgressItem[] }>(
+      '/api/me/items-in-progress'
+    );
+
+    return response.libraryItems
+      .map((item) => ({
+        ...toBook(item),
+        lastUpdate: item.progressLastUpdate ?? 0,
+        episodeId: item.recentEpisode?.id,
+      }))
+      .sort((a, b) => b.lastUpdate - a.lastUpdate);
+  }
+
+  /**
+   * Update progress for a book, or for one episode of a podcast
+   */
+  async updateProgress(
+    bookId: string,
+    currentTime: number,
+    episodeId?: string
+  ): Promise<Progress> {
     interface ProgressResponse {
       progress: number;
       currentTime: number;
@@ -213,7 +1245,7 @@ export class AudiobookshelfClient {
     }
 
     const response = await this.request<ProgressResponse>(
-      `/api/me/progress/${bookId}`,
+      `/api/me/progress/${itemPath(bookId, episodeId)}`,
       {
         method: 'PATCH',
         body: JSON.stringify({ currentTime }),
@@ -222,6 +1254,7 @@ export class AudiobookshelfClient {
 
     return {
       bookId,
+      episodeId,
       currentTime: response.currentTime,
       duration: response.duration,
       progress: response.progress,
@@ -231,12 +1264,57 @@ export class AudiobookshelfClient {
   }
 
   /**
-   * Start a playback session
+   * Mark a book, or one episode of a podcast, as finished or not finished
+   */
+  async markFinished(bookId: string, finished: boolean, episodeId?: string): Promise<void> {
+    await this.request<undefined>(`/api/me/progress/${itemPath(bookId, episodeId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isFinished: finished }),
+    });
+  }
+
+  /**
+   * Update the progress of several books or episodes in one request
+   */
+  async updateProgressBatch(updates: ProgressUpdate[]): Promise<void> {
+    await this.request<undefined>('/api/me/progress/batch/update', {
+      method: 'PATCH',
+      body: JSON.stringify(
+        updates.map(({ bookId, ...update }) => ({ libraryItemId: bookId, ...update }))
+      ),
+    });
+  }
+
+  /**
+   * Discard progress for a book, or one episode of a podcast
+   *
+   * @returns false if there was no progress to discard
+   */
+  async resetProgress(bookId: string, episodeId?: string): Promise<boolean> {
+    let progressId: string;
+    try {
+      progressId = (
+        await this.request<{ id: string }>(`/api/me/progress/${itemPath(bookId, episodeId)}`)
+      ).id;
+    } catch (error) {
+      if (error instanceof AudiobookshelfApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+
+    await this.request<undefined>(`/api/me/progress/${progressId}`, { method: 'DELETE' });
+    return true;
+  }
+
+  /**
+   * Start a playback session for a book, or for one episode of a podcast
    */
-  async startSession(bookId: string): Promise<PlaybackSession> {
+  async startSession(bookId: string, episodeId?: string): Promise<PlaybackSession> {
     interface SessionResponse {
       id: string;
       libraryItemId: string;
+      episodeId?: string | null;
       currentTime: number;
       startedAt: number;
       deviceInfo?: {
@@ -246,7 +1324,7 @@ export class AudiobookshelfClient {
     }
 
     const response = await this.request<SessionResponse>(
-      `/api/items/${bookId}/play`,
+      `/api/items/${bookId}/play${episodeId ? `/${episodeId}` : ''}`,
       {
         method: 'POST',
         body: JSON.stringify({}),
@@ -256,12 +1334,25 @@ export class AudiobookshelfClient {
     return {
       id: response.id,
       bookId: response.libraryItemId,
+      episodeId: response.episodeId ?? undefined,
       currentTime: response.currentTime,
       startedAt: response.startedAt,
       deviceInfo: response.deviceInfo,
     };
   }
 
+  /**
+   * Report position and listening time to an open playback session
+   *
+   * Updates the user's progress as well as the server's listening stats.
+   */
+  async syncSession(sessionId: string, sync: SessionSync): Promise<void> {
+    await this.request<undefined>(`/api/session/${sessionId}/sync`, {
+      method: 'POST',
+      body: JSON.stringify(sync),
+    });
+  }
+
   /**
    * Sync and close a playback session
    * @param sessionId - The session ID to close
@@ -280,18 +1371,35 @@ export class AudiobookshelfClient {
   }
 
   /**
-   * Get audio stream URL for a book
-   * @param bookId - The book ID
+   * Get audio stream URL for a book or podcast episode
+   * @param bookId - The book (or podcast) ID
    * @param options - Optional settings
    * @returns The stream URL
    */
   getStreamUrl(bookId: string, options?: StreamUrlOptions): string {
-    const baseUrl = `${this.config.url}/api/items/${bookId}/play`;
+    const episodePath = options?.episodeId ? `/${options.episodeId}` : '';
+    return `${this.config.url}/api/items/${bookId}/play${episodePath}`;
+  }
 
-    if (options?.includeToken) {
-      return `${baseUrl}?token=${this.config.apiKey}`;
+  /**
+   * Get cover image URL for a book or podcast
+   * @param itemId - The library item ID
+   * @param options - Optional size and format
+   * @returns The cover URL
+   */
+  getCoverUrl(itemId: string, options: CoverUrlOptions = {}): string {
+    const params = new URLSearchParams();
+    if (options.width !== undefined) {
+      params.set('width', String(options.width));
+    }
+    if (options.height !== undefined) {
+      params.set('height', String(options.height));
+    }
+    if (options.format) {
+      params.set('format', options.format);
     }
 
-    return baseUrl;
+    const query = params.toString();
+    return `${this.config.url}/api/items/${itemId}/cover${query ? `?${query}` : ''}`;
   }
 }
@@ -8,6 +8,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { randomBytes } from 'crypto';
+import type { AuthTokens } from './types.js';
+import { isOutputFormat, type OutputFormat } from '../proxy/output-format.js';
 
 /**
  * Proxy server configuration
@@ -21,6 +24,26 @@ export interface ProxyConfig {
   trustedProxies?: string[];
   /** Public URL for Cast devices to reach this proxy */
   publicUrl?: string;
+  /** Secret shared by the daemon and proxy for signing stream tokens */
+  streamSecret?: string;
+  /** Stream Cast devices a progressive MP3 or an HLS playlist (default: progressive) */
+  streamMode?: 'progressive' | 'hls';
+  /** Codec of progressive streams (default: mp3) */
+  outputFormat?: OutputFormat;
+}
+
+/**
+ * Per-user settings stored under a named profile
+ */
+export interface ProfileConfig {
+  /** Audiobookshelf server URL */
+  url?: string;
+  /** API key/token */
+  apiKey?: string;
+  /** Refresh token from `abs login` (servers v2.26+) */
+  refreshToken?: string;
+  /** Default Cast device name */
+  defaultDevice?: string;
 }
 
 /**
@@ -31,12 +54,28 @@ export interface AppConfig {
   url?: string;
   /** API key/token */
   apiKey?: string;
+  /** Refresh token from `abs login` (servers v2.26+) */
+  refreshToken?: string;
   /** Default Cast device name */
   defaultDevice?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retries for failed GET requests */
+  retries?: number;
   /** Proxy server configuration */
   proxy?: ProxyConfig;
+  /** Named per-user profiles, overriding the top-level settings when active */
+  profiles?: Record<string, ProfileConfig>;
+  /** Profile used when neither --profile nor ABS_PROFILE is given */
+  activeProfile?: string;
+}
+
+/**
+ * Options for loadConfig
+ */
+export interface LoadConfigOptions {
+  /** Profile to apply (default: ABS_PROFILE, then activeProfile from the file) */
+  profile?: string;
 }
 
 /**
@@ -47,8 +86,16 @@ export interface AudiobookshelfConfig {
   url: string;
   /** API key/token */
   apiKey: string;
-  /** Request timeout in milliseconds (optional) */
+  /** Refresh token used to renew an expired access token */
+  refreshToken?: string;
+  /** Called with the new tokens after a refresh so they can be persisted */
+  onTokenRefresh?: (tokens: AuthTokens) => void | Promise<void>;
+  /** Request timeout in milliseconds (default: 10000) */
   timeout?: number;
+  /** Retries for GET requests that time out, fail to connect or get 5xx/429 (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 500) */
+  retryDelayMs?: number;
 }
 
 /**
@@ -126,6 +173,10 @@ function formatForDisplay(config: AppConfig): string {
   const displayConfig = {
     ...config,
     apiKey: redactApiKey(config.apiKey),
+    refreshToken: config.refreshToken ? redactApiKey(config.refreshToken) : undefined,
+    proxy: config.proxy?.streamSecret
+      ? { ...config.proxy, streamSecret: redactApiKey(config.proxy.streamSecret) }
+      : config.proxy,
   };
 
   return JSON.stringify(displayConfig, null, 2);
@@ -143,20 +194,46 @@ export const Config = {
 };
 
 /**
- * Load configuration from environment and file
+ * Read the config file as stored on disk, without env vars or profiles applied
  */
-export async function loadConfig(): Promise<AppConfig> {
-  // Start with empty config
-  let fileConfig: AppConfig = {};
-
-  // Try to load from config file
+export async function readConfigFile(): Promise<AppConfig> {
   const configPath = getConfigPath();
   try {
     await fs.access(configPath);
     const content = await fs.readFile(configPath, 'utf-8');
-    fileConfig = JSON.parse(content) as AppConfig;
+    return JSON.parse(content) as AppConfig;
   } catch {
     // File doesn't exist or is invalid, use defaults
+    return {};
+  }
+}
+
+/**
+ * Load configuration from environment and file
+ *
+ * The selected profile's settings override the top-level file settings
+ * (credentials are taken from the profile only); environment variables
+ * override both. The returned `activeProfile` is the
+ * profile that was applied, if any.
+ *
+ * @throws Error if the selected profile does not exist
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<AppConfig> {
+  let fileConfig = await readConfigFile();
+
+  const profileName = options.profile ?? process.env.ABS_PROFILE ?? fileConfig.activeProfile;
+  if (profileName) {
+    const profile = fileConfig.profiles?.[profileName];
+    if (!profile) {
+      throw new Error(`Unknown profile: ${profileName}`);
+    }
+    // Credentials never fall through to the top level - they belong to one user
+    fileConfig = {
+      ...merge(fileConfig, profile),
+      apiKey: profile.apiKey,
+      refreshToken: profile.refreshToken,
+      activeProfile: profileName,
+    };
   }
 
   // Load from environment variables (higher priority)
@@ -177,6 +254,12 @@ export async function loadConfig(): Promise<AppConfig> {
       envConfig.timeout = timeout;
     }
   }
+  if (process.env.ABS_RETRIES) {
+    const retries = parseInt(process.env.ABS_RETRIES, 10);
+    if (!isNaN(retries) && retries >= 0) {
+      envConfig.retries = retries;
+    }
+  }
 
   // Proxy configuration from environment
   const proxyConfig: ProxyConfig = {};
@@ -195,6 +278,15 @@ export async function loadConfig(): Promise<AppConfig> {
   if (process.env.ABS_PUBLIC_URL) {
     proxyConfig.publicUrl = process.env.ABS_PUBLIC_URL;
   }
+  if (process.env.ABS_STREAM_SECRET) {
+    proxyConfig.streamSecret = process.env.ABS_STREAM_SECRET;
+  }
+  if (process.env.ABS_STREAM_MODE === 'progressive' || process.env.ABS_STREAM_MODE === 'hls') {
+    proxyConfig.streamMode = process.env.ABS_STREAM_MODE;
+  }
+  if (isOutputFormat(process.env.ABS_OUTPUT_FORMAT)) {
+    proxyConfig.outputFormat = process.env.ABS_OUTPUT_FORMAT;
+  }
   if (Object.keys(proxyConfig).length > 0) {
     envConfig.proxy = proxyConfig;
   }
@@ -210,6 +302,50 @@ export async function loadConfig(): Promise<AppConfig> {
   return merged;
 }
 
+/**
+ * Update settings in the config file
+ *
+ * Changes are written to the named profile when one is given, otherwise to
+ * the top level. Environment overrides are never written back.
+ *
+ * @returns The updated file contents
+ */
+export async function updateConfig(changes: ProfileConfig, profile?: string): Promise<AppConfig> {
+  const fileConfig = await readConfigFile();
+  if (profile) {
+    fileConfig.profiles = {
+      ...fileConfig.profiles,
+      [profile]: { ...fileConfig.profiles?.[profile], ...changes },
+    };
+  } else {
+    Object.assign(fileConfig, changes);
+  }
+  await saveConfig(fileConfig);
+  return fileConfig;
+}
+
+/**
+ * Get the secret for signing proxy stream tokens
+ *
+ * Uses the configured secret, otherwise generates one and saves it to the
+ * config file so the playback daemon and the proxy agree on it.
+ */
+export async function getStreamSecret(config: AppConfig): Promise<string> {
+  if (config.proxy?.streamSecret) {
+    return config.proxy.streamSecret;
+  }
+
+  const fileConfig = await readConfigFile();
+  if (fileConfig.proxy?.streamSecret) {
+    return fileConfig.proxy.streamSecret;
+  }
+
+  const streamSecret = randomBytes(32).toString('base64url');
+  fileConfig.proxy = { ...fileConfig.proxy, streamSecret };
+  await saveConfig(fileConfig);
+  return streamSecret;
+}
+
 /**
  * Save configuration to file
  */
@@ -220,7 +356,9 @@ export async function saveConfig(config: AppConfig): Promise<void> {
   // Ensure directory exists
   await fs.mkdir(configDir, { recursive: true });
 
-  // Write config file
+  // Write config file, readable by the owner only as it holds credentials.
+  // The mode only applies when the file is created, so tighten existing files too.
   const content = JSON.stringify(config, null, 2);
-  await fs.writeFile(configPath, content, 'utf-8');
+  await fs.writeFile(configPath, content, { encoding: 'utf-8', mode: 0o600 });
+  await fs.chmod(configPath, 0o600);
 }
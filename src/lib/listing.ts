@@ -0,0 +1,73 @@
+/**
+ * Library listing options
+ *
+ * Sort aliases and filters for `abs books`. Filters use the server's
+ * `<group>.<base64 value>` encoding, e.g. `--filter genre:Fantasy`.
+ */
+
+/**
+ * Filter groups supported by the library items endpoint
+ */
+export type ItemFilterGroup = 'authors' | 'series' | 'narrators' | 'genres' | 'tags' | 'progress';
+
+/**
+ * Filter for library items
+ *
+ * `authors` and `series` filter by ID; the other groups filter by name
+ * (or by `finished`, `in-progress` or `not-started` for progress).
+ */
+export interface ItemFilter {
+  group: ItemFilterGroup;
+  value: string;
+}
+
+/** Sort aliases accepted by `abs books --sort` */
+export const SORT_FIELDS: Record<string, string> = {
+  title: 'media.metadata.title',
+  author: 'media.metadata.authorName',
+  added: 'addedAt',
+  duration: 'media.duration',
+  published: 'media.metadata.publishedYear',
+};
+
+const FILTER_GROUPS: Record<string, ItemFilterGroup> = {
+  author: 'authors',
+  series: 'series',
+  narrator: 'narrators',
+  genre: 'genres',
+  tag: 'tags',
+  progress: 'progress',
+};
+
+const PROGRESS_VALUES = ['finished', 'in-progress', 'not-started'];
+
+/**
+ * Parse a CLI filter such as `author:Brandon Sanderson` or `progress:finished`
+ *
+ * @returns The parsed filter, or null if the input is not valid
+ */
+export function parseItemFilter(input: string): ItemFilter | null {
+  const separator = input.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+
+  const kind = input.slice(0, separator).trim().toLowerCase();
+  const group = Object.hasOwn(FILTER_GROUPS, kind) ? FILTER_GROUPS[kind] : undefined;
+  const value = input.slice(separator + 1).trim();
+  if (!group || !value) {
+    return null;
+  }
+  if (group === 'progress' && !PROGRESS_VALUES.includes(value)) {
+    return null;
+  }
+
+  return { group, value };
+}
+
+/**
+ * Encode a filter for the `filter` query parameter
+ */
+export function encodeItemFilter(filter: ItemFilter): string {
+  return `${filter.group}.${Buffer.from(filter.value).toString('base64')}`;
+}
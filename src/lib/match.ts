@@ -0,0 +1,137 @@
+/**
+ * Title matching
+ *
+ * Picks a single book (or podcast) from search results so users (and voice
+ * commands) can refer to items by title instead of library item ID.
+ */
+
+import type { Book } from './types.js';
+
+/**
+ * How closely a book title matches the query
+ */
+export type MatchQuality = 'exact' | 'prefix' | 'contains' | 'other';
+
+/**
+ * Anything that can be matched by title (books, podcasts)
+ */
+export interface MatchCandidate {
+  id: string;
+  title: string;
+  author?: string;
+}
+
+/**
+ * Search result with its match quality
+ */
+export interface RankedBook<T extends MatchCandidate = Book> {
+  book: T;
+  quality: MatchQuality;
+}
+
+/**
+ * Options for selectBook
+ */
+export interface SelectBookOptions {
+  /** Pick the best-ranked candidate instead of failing when ambiguous */
+  first?: boolean;
+}
+
+/**
+ * Error thrown when a title matches several items
+ */
+export class AmbiguousMatchError extends Error {
+  constructor(
+    public readonly query: string,
+    public readonly candidates: RankedBook<MatchCandidate>[]
+  ) {
+    super(`"${query}" matches ${String(candidates.length)} titles`);
+    this.name = 'AmbiguousMatchError';
+  }
+}
+
+/**
+ * Error thrown when a title matches nothing
+ */
+export class NoMatchError extends Error {
+  constructor(public readonly query: string) {
+    super(`Nothing matches "${query}"`);
+    this.name = 'NoMatchError';
+  }
+}
+
+const QUALITY_ORDER: MatchQuality[] = ['exact', 'prefix', 'contains', 'other'];
+
+/** Library item IDs: UUIDs on current servers, `li_...` on older ones */
+const ITEM_ID_PATTERN =
+  /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|li_[a-z0-9]+)$/i;
+
+/**
+ * Check whether input looks like a library item ID rather than a title
+ */
+export function looksLikeItemId(input: string): boolean {
+  return ITEM_ID_PATTERN.test(input.trim());
+}
+
+/**
+ * Normalise a title for comparison (case, punctuation and spacing)
+ */
+function normalise(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Rank search results by how well their titles match the query
+ *
+ * @returns Results ordered best match first; ties keep server order
+ */
+export function rankBooks<T extends MatchCandidate>(query: string, books: T[]): RankedBook<T>[] {
+  const needle = normalise(query);
+
+  const ranked = books.map((book): RankedBook<T> => {
+    const title = normalise(book.title);
+    let quality: MatchQuality = 'other';
+    if (title === needle) {
+      quality = 'exact';
+    } else if (title.startsWith(needle)) {
+      quality = 'prefix';
+    } else if (title.includes(needle)) {
+      quality = 'contains';
+    }
+    return { book, quality };
+  });
+
+  return ranked.sort(
+    (a, b) => QUALITY_ORDER.indexOf(a.quality) - QUALITY_ORDER.indexOf(b.quality)
+  );
+}
+
+/**
+ * Select one book for a title query
+ *
+ * A single result or a single exact title match is chosen outright.
+ * Otherwise the best candidate is chosen only when `first` is set.
+ *
+ * @throws NoMatchError if there are no results
+ * @throws AmbiguousMatchError if several books match and `first` is not set
+ */
+export function selectBook<T extends MatchCandidate>(
+  query: string,
+  books: T[],
+  options: SelectBookOptions = {}
+): T {
+  const ranked = rankBooks(query, books);
+  if (ranked.length === 0) {
+    throw new NoMatchError(query);
+  }
+
+  const exact = ranked.filter((r) => r.quality === 'exact');
+  if (ranked.length === 1 || exact.length === 1 || options.first) {
+    return ranked[0].book;
+  }
+
+  throw new AmbiguousMatchError(query, ranked);
+}
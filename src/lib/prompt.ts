@@ -0,0 +1,68 @@
+/**
+ * Terminal prompts
+ */
+
+import { createInterface } from 'readline';
+
+const CTRL_C = '\u0003';
+const BACKSPACE = ['\u007f', '\b'];
+
+/**
+ * Read a password without echoing it
+ *
+ * Reads the first line of stdin when it is not a terminal, so passwords
+ * can be piped in.
+ *
+ * @throws Error if the user presses Ctrl+C
+ */
+export function readPassword(prompt: string): Promise<string> {
+  const stdin = process.stdin;
+
+  if (!stdin.isTTY) {
+    return new Promise((resolve) => {
+      const rl = createInterface({ input: stdin });
+      let line = '';
+      rl.once('line', (input) => {
+        line = input;
+        rl.close();
+      });
+      rl.once('close', () => {
+        resolve(line);
+      });
+    });
+  }
+
+  process.stdout.write(prompt);
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf8');
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let password = '';
+
+    const finish = (): void => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write('\n');
+    };
+
+    const onData = (chunk: string): void => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(password);
+          return;
+        }
+        if (char === CTRL_C) {
+          finish();
+          reject(new Error('Login cancelled'));
+          return;
+        }
+        password = BACKSPACE.includes(char) ? password.slice(0, -1) : password + char;
+      }
+    };
+
+    stdin.on('data', onData);
+  });
+}
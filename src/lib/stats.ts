@@ -0,0 +1,152 @@
+/**
+ * Listening statistics
+ *
+ * Summarises the server's listening stats and session history for
+ * `abs stats`: total time, a per-day (or per-month) breakdown and the most
+ * listened books over a period.
+ */
+
+import type { ListenedItem, ListeningSession, ListeningStats } from './types.js';
+
+/**
+ * Period covered by `abs stats`
+ */
+export type StatsPeriod = 'week' | 'month' | 'year';
+
+/** Periods accepted by `abs stats --period` */
+export const STATS_PERIODS: readonly StatsPeriod[] = ['week', 'month', 'year'];
+
+const PERIOD_DAYS: Record<StatsPeriod, number> = { week: 7, month: 30, year: 365 };
+
+/**
+ * Listening time for one day or month of the breakdown
+ */
+export interface ListeningBreakdown {
+  /** Date (YYYY-MM-DD) or month (YYYY-MM) */
+  label: string;
+  seconds: number;
+}
+
+/**
+ * Listening summary for a period
+ */
+export interface ListeningSummary {
+  period: StatsPeriod;
+  /** First day of the period (YYYY-MM-DD) */
+  since: string;
+  /** Seconds listened during the period */
+  totalTime: number;
+  /** Seconds listened today */
+  today: number;
+  /** Seconds listened overall */
+  allTime: number;
+  /** Per day for week and month, per month for year; oldest first */
+  breakdown: ListeningBreakdown[];
+  /** Most listened items during the period */
+  topItems: ListenedItem[];
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key, as used by the server's stats
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${String(date.getFullYear())}-${month}-${day}`;
+}
+
+/**
+ * Get local midnight on the first day of a period ending today
+ */
+export function getPeriodStart(period: StatsPeriod, now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - PERIOD_DAYS[period] + 1);
+}
+
+/**
+ * Build the daily (or monthly, for a year) breakdown of listening time
+ */
+function buildBreakdown(
+  days: Record<string, number>,
+  period: StatsPeriod,
+  start: Date,
+  now: Date
+): ListeningBreakdown[] {
+  const breakdown: ListeningBreakdown[] = [];
+  const today = toDateKey(now);
+
+  for (let day = new Date(start); ; day.setDate(day.getDate() + 1)) {
+    const key = toDateKey(day);
+    const label = period === 'year' ? key.slice(0, 7) : key;
+    const seconds = days[key] ?? 0;
+
+    const last = breakdown.length > 0 ? breakdown[breakdown.length - 1] : undefined;
+    if (last?.label === label) {
+      last.seconds += seconds;
+    } else {
+      breakdown.push({ label, seconds });
+    }
+
+    if (key === today) {
+      return breakdown;
+    }
+  }
+}
+
+/**
+ * Total listening time per item for sessions started since a given time
+ */
+function rankItems(sessions: ListeningSession[], since: number, count: number): ListenedItem[] {
+  const items = new Map<string, ListenedItem>();
+
+  for (const session of sessions) {
+    if (session.startedAt < since) {
+      continue;
+    }
+    const key = session.episodeId ?? session.bookId;
+    const item = items.get(key);
+    if (item) {
+      item.timeListened += session.timeListened;
+    } else {
+      items.set(key, {
+        bookId: session.bookId,
+        title: session.title,
+        author: session.author,
+        timeListened: session.timeListened,
+      });
+    }
+  }
+
+  return [...items.values()]
+    .sort((a, b) => b.timeListened - a.timeListened)
+    .slice(0, count);
+}
+
+/**
+ * Summarise listening over a period
+ *
+ * @param stats - Listening stats from the server
+ * @param sessions - Sessions covering at least the period, in any order
+ * @param period - Period ending today
+ * @param now - Current time
+ * @param topCount - Number of top items to include
+ */
+export function summariseListening(
+  stats: ListeningStats,
+  sessions: ListeningSession[],
+  period: StatsPeriod,
+  now: Date = new Date(),
+  topCount = 5
+): ListeningSummary {
+  const start = getPeriodStart(period, now);
+  const breakdown = buildBreakdown(stats.days, period, start, now);
+
+  return {
+    period,
+    since: toDateKey(start),
+    totalTime: breakdown.reduce((total, entry) => total + entry.seconds, 0),
+    today: stats.today,
+    allTime: stats.totalTime,
+    breakdown,
+    topItems: rankItems(sessions, start.getTime(), topCount),
+  };
+}
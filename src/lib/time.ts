@@ -0,0 +1,129 @@
+/**
+ * Time parsing and formatting
+ *
+ * Implements the seek grammar used by `abs seek`:
+ * - Relative: `+30s`, `-1m`, `+1h30m`, `-90`
+ * - Absolute: `1:23:45`, `23:45`, `30s`, `90`
+ * - Percentage of the book: `50%`
+ */
+
+/**
+ * Parsed seek target
+ */
+export type SeekTarget =
+  | { type: 'relative'; seconds: number }
+  | { type: 'absolute'; seconds: number }
+  | { type: 'percent'; percent: number };
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, m: 60, s: 1 };
+
+/**
+ * Parse a duration such as `90`, `30s`, `1m30s` or `1h` into seconds
+ */
+function parseDuration(input: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(input)) {
+    return parseFloat(input);
+  }
+
+  if (!/^(\d+(\.\d+)?[hms])+$/.test(input)) {
+    return null;
+  }
+
+  let seconds = 0;
+  for (const match of input.matchAll(/(\d+(?:\.\d+)?)([hms])/g)) {
+    seconds += parseFloat(match[1]) * UNIT_SECONDS[match[2]];
+  }
+  return seconds;
+}
+
+/**
+ * Parse a clock time such as `23:45` or `1:23:45` into seconds
+ */
+function parseClock(input: string): number | null {
+  if (!/^\d+(:[0-5]?\d){1,2}(\.\d+)?$/.test(input)) {
+    return null;
+  }
+
+  return input
+    .split(':')
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Parse a seek target
+ *
+ * @param input - Seek expression (see module docs for the grammar)
+ * @returns The parsed target, or null if the input is not valid
+ */
+export function parseSeekTarget(input: string): SeekTarget | null {
+  const value = input.trim().toLowerCase();
+
+  if (value.endsWith('%')) {
+    const percent = Number(value.slice(0, -1));
+    if (value.length < 2 || isNaN(percent) || percent < 0 || percent > 100) {
+      return null;
+    }
+    return { type: 'percent', percent };
+  }
+
+  if (value.startsWith('+') || value.startsWith('-')) {
+    const seconds = parseDuration(value.slice(1)) ?? parseClock(value.slice(1));
+    if (seconds === null) {
+      return null;
+    }
+    return { type: 'relative', seconds: value.startsWith('-') ? -seconds : seconds };
+  }
+
+  const seconds = parseClock(value) ?? parseDuration(value);
+  return seconds === null ? null : { type: 'absolute', seconds };
+}
+
+/**
+ * Resolve a seek target to an absolute position, clamped to the book
+ *
+ * @param target - Parsed seek target
+ * @param current - Current position in seconds
+ * @param duration - Book duration in seconds (0 if unknown - no upper clamp)
+ * @returns Position in seconds
+ */
+export function resolveSeekTarget(target: SeekTarget, current: number, duration: number): number {
+  let position: number;
+  switch (target.type) {
+    case 'relative':
+      position = current + target.seconds;
+      break;
+    case 'absolute':
+      position = target.seconds;
+      break;
+    case 'percent':
+      position = (duration * target.percent) / 100;
+      break;
+  }
+
+  position = Math.max(0, position);
+  return duration > 0 ? Math.min(duration, position) : position;
+}
+
+/**
+ * Format seconds as h:mm:ss (or m:ss under an hour)
+ */
+export function formatTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${String(h)}:${String(m).padStart(2, '0')}:${s}` : `${String(m)}:${s}`;
+}
+
+/**
+ * Format seconds as a rough duration such as `5h 12m`, `42m` or `30s`
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h > 0) {
+    return `${String(h)}h ${String(m)}m`;
+  }
+  return m > 0 ? `${String(m)}m` : `${String(seconds)}s`;
+}
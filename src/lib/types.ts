@@ -26,11 +26,204 @@ export interface Book {
   coverPath?: string;
 }
 
+/**
+ * One page of library items
+ */
+export interface ItemPage {
+  books: Book[];
+  /** Total number of items matching the filter */
+  total: number;
+  /** 0-based page index */
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Book the user has started but not finished
+ */
+export interface InProgressBook extends Book {
+  /** When progress was last updated (ms since epoch) */
+  lastUpdate: number;
+  /** Most recently played episode, for podcasts */
+  episodeId?: string;
+}
+
+/**
+ * Chapter within a book (times in seconds from the start of the book)
+ */
+export interface Chapter {
+  id: number;
+  start: number;
+  end: number;
+  title: string;
+}
+
+/**
+ * Audio file of a book as served for playback
+ */
+export interface AudioTrack {
+  index: number;
+  /** Offset of this track from the start of the book in seconds */
+  startOffset: number;
+  duration: number;
+  title: string;
+  /** Server-relative URL of the audio file */
+  contentUrl: string;
+  mimeType: string;
+}
+
+/**
+ * Book with full media details
+ */
+export interface BookDetails extends Book {
+  mediaType: 'book' | 'podcast';
+  subtitle?: string;
+  description?: string;
+  series?: string;
+  publishedYear?: string;
+  genres: string[];
+  chapters: Chapter[];
+  audioTracks: AudioTrack[];
+}
+
+/**
+ * Podcast found by search
+ */
+export interface Podcast {
+  id: string;
+  libraryId: string;
+  title: string;
+  author?: string;
+  numEpisodes: number;
+  coverPath?: string;
+}
+
+/**
+ * Podcast episode (times in seconds)
+ */
+export interface PodcastEpisode {
+  id: string;
+  title: string;
+  /** Season and episode numbers as published in the feed (may be empty) */
+  season?: string;
+  episode?: string;
+  description?: string;
+  /** Publication time (ms since epoch) */
+  publishedAt?: number;
+  duration: number;
+  chapters: Chapter[];
+}
+
+/**
+ * Series in a library
+ */
+export interface Series {
+  id: string;
+  libraryId: string;
+  name: string;
+  /** Books in the series, ordered by sequence */
+  books: SeriesBook[];
+}
+
+/**
+ * Book with its position in a series
+ */
+export interface SeriesBook extends Book {
+  /** Sequence within the series as entered in the metadata, e.g. "1" or "2.5" */
+  sequence?: string;
+}
+
+/**
+ * Collection of books shared by all users of a library
+ */
+export interface Collection {
+  id: string;
+  libraryId: string;
+  name: string;
+  description?: string;
+  books: Book[];
+}
+
+/**
+ * Book or podcast episode in a playlist
+ */
+export interface PlaylistItem {
+  bookId: string;
+  /** Podcast episode, for podcast items */
+  episodeId?: string;
+  /** Book title, or the episode title for podcast items */
+  title: string;
+  /** Book author, or the podcast name for episodes */
+  author?: string;
+  duration: number;
+}
+
+/**
+ * Personal, ordered list of books and podcast episodes
+ */
+export interface Playlist {
+  id: string;
+  libraryId: string;
+  name: string;
+  description?: string;
+  items: PlaylistItem[];
+}
+
+/**
+ * Author found by search
+ */
+export interface AuthorResult {
+  id: string;
+  libraryId: string;
+  name: string;
+  numBooks: number;
+}
+
+/**
+ * Series found by search, with its matching books
+ */
+export interface SeriesResult {
+  id: string;
+  libraryId: string;
+  name: string;
+  books: Book[];
+}
+
+/**
+ * Narrator found by search
+ */
+export interface NarratorResult {
+  name: string;
+  numBooks: number;
+}
+
+/**
+ * Tag found by search
+ */
+export interface TagResult {
+  name: string;
+  numItems: number;
+}
+
+/**
+ * Search results grouped by kind
+ */
+export interface SearchResults {
+  books: Book[];
+  podcasts: Podcast[];
+  authors: AuthorResult[];
+  series: SeriesResult[];
+  narrators: NarratorResult[];
+  tags: TagResult[];
+}
+
 /**
  * User progress for a book
  */
 export interface Progress {
   bookId: string;
+  /** Podcast episode the progress belongs to */
+  episodeId?: string;
   currentTime: number;
   duration: number;
   progress: number; // 0-1
@@ -38,12 +231,102 @@ export interface Progress {
   lastUpdate: number;
 }
 
+/**
+ * Change to the progress of a book or podcast episode (batch updates)
+ */
+export interface ProgressUpdate {
+  bookId: string;
+  episodeId?: string;
+  currentTime?: number;
+  isFinished?: boolean;
+}
+
+/**
+ * Saved position in a book
+ */
+export interface Bookmark {
+  bookId: string;
+  title: string;
+  /** Position in seconds */
+  time: number;
+  createdAt: number;
+}
+
+/**
+ * Playback state reported to an open session
+ */
+export interface SessionSync {
+  /** Position in seconds */
+  currentTime: number;
+  /** Seconds actually spent playing since the previous sync */
+  timeListened: number;
+  /** Duration of the book or episode in seconds */
+  duration: number;
+}
+
+/**
+ * Book or podcast with its total listening time
+ */
+export interface ListenedItem {
+  bookId: string;
+  title: string;
+  author?: string;
+  /** Seconds listened */
+  timeListened: number;
+}
+
+/**
+ * The user's listening statistics
+ */
+export interface ListeningStats {
+  /** Total seconds listened */
+  totalTime: number;
+  /** Seconds listened today */
+  today: number;
+  /** Seconds listened per day, keyed by date (YYYY-MM-DD) */
+  days: Record<string, number>;
+  /** Items by listening time, most listened first */
+  items: ListenedItem[];
+}
+
+/**
+ * Past playback session from the listening history
+ */
+export interface ListeningSession {
+  id: string;
+  bookId: string;
+  episodeId?: string;
+  /** Book title, or the episode title for podcasts */
+  title: string;
+  author?: string;
+  /** Seconds listened during the session */
+  timeListened: number;
+  /** Position when the session last synced, in seconds */
+  currentTime: number;
+  duration: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One page of listening sessions
+ */
+export interface ListeningSessionPage {
+  sessions: ListeningSession[];
+  total: number;
+  /** 0-based page index */
+  page: number;
+  pageSize: number;
+}
+
 /**
  * Active playback session
  */
 export interface PlaybackSession {
   id: string;
   bookId: string;
+  /** Podcast episode being played */
+  episodeId?: string;
   currentTime: number;
   startedAt: number;
   deviceInfo?: {
@@ -52,6 +335,24 @@ export interface PlaybackSession {
   };
 }
 
+/**
+ * Tokens issued by the server at login or refresh
+ */
+export interface AuthTokens {
+  /** Access token (or legacy API token on older servers) */
+  token: string;
+  /** Refresh token (servers v2.26+ only) */
+  refreshToken?: string;
+}
+
+/**
+ * Result of a username/password login
+ */
+export interface LoginResult extends AuthTokens {
+  userId: string;
+  username: string;
+}
+
 /**
  * Google Cast device
  */
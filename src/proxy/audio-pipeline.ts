@@ -3,21 +3,53 @@
  *
  * Creates a decode → volume transform → encode pipeline using ffmpeg.
  * The pipeline enables real-time volume control during streaming.
+ * Books split into several audio files are decoded one track after another
+ * into a single continuous output stream, encoded as MP3 or another output
+ * format (see output-format.ts). In HLS mode the encoder writes AAC segments
+ * to a directory instead; the volume and tempo transforms apply either way.
  */
 
 import { spawn, type ChildProcess } from 'child_process';
+import { join } from 'path';
 import { type Readable, PassThrough } from 'stream';
 import { VolumeTransform } from './volume-transform.js';
+import { TempoTransform } from './tempo-transform.js';
+import { HLS_SEGMENT_DURATION } from './hls.js';
+import { getEncoderArgs, type OutputFormat } from './output-format.js';
+
+/**
+ * One audio file of a multi-file book
+ */
+export interface PipelineTrack {
+  /** Track URL or file path */
+  url: string;
+  /** Offset of this track from the start of the book in seconds */
+  startOffset: number;
+}
+
+/**
+ * HLS segment output
+ */
+export interface HlsOutputOptions {
+  /** Directory the segments are written to */
+  directory: string;
+  /** Segment length in seconds (default: 6) */
+  segmentDuration?: number;
+}
 
 /**
  * Options for AudioPipeline
  */
 export interface AudioPipelineOptions {
-  /** Input URL or file path */
-  inputUrl: string;
-  /** Start position in seconds */
+  /** Input URL or file path (single-file input) */
+  inputUrl?: string;
+  /** Audio files of the book in playback order (instead of inputUrl) */
+  tracks?: PipelineTrack[];
+  /** Start position in seconds from the start of the book */
   startPosition?: number;
-  /** Output bitrate (default: 192k) */
+  /** Output format (default: mp3) */
+  outputFormat?: OutputFormat;
+  /** Output bitrate for lossy formats (default: per format, 192k for MP3) */
   outputBitrate?: string;
   /** Sample rate (default: 44100) */
   sampleRate?: number;
@@ -25,32 +57,105 @@ export interface AudioPipelineOptions {
   channels?: number;
   /** Initial volume (0.0 - 1.5, default: 1.0) */
   initialVolume?: number;
-  /** Authorization header for input URL (optional) */
-  authHeader?: string;
+  /** Initial playback speed (0.5 - 3.0, default: 1.0) */
+  initialSpeed?: number;
+  /**
+   * Get the Authorization header for input URLs (optional). Called each time a
+   * track's decoder starts, so refreshed tokens reach later tracks.
+   */
+  getAuthHeader?: () => string;
+  /**
+   * Encode AAC segments into a directory instead of to the output stream.
+   * The start position should fall on a segment boundary.
+   */
+  hls?: HlsOutputOptions;
+}
+
+/** Default MP3 output bitrate */
+export const DEFAULT_OUTPUT_BITRATE = '192k';
+
+/**
+ * Get the number of bytes per second of encoded output
+ *
+ * The encoder runs at a constant bitrate, so byte offsets in the output map
+ * linearly to time offsets.
+ *
+ * @param outputBitrate - ffmpeg bitrate such as "192k"
+ */
+export function getOutputByteRate(outputBitrate = DEFAULT_OUTPUT_BITRATE): number {
+  return (parseInt(outputBitrate, 10) * 1000) / 8;
+}
+
+/**
+ * Find the track containing a position and the offset into that track
+ *
+ * Positions before the first track map to its start; positions past the end
+ * map into the last track.
+ *
+ * @param tracks - Tracks in playback order
+ * @param position - Position in seconds from the start of the book
+ */
+export function findTrackAt(
+  tracks: PipelineTrack[],
+  position: number
+): { index: number; offset: number } {
+  let index = 0;
+  for (let i = 0; i < tracks.length; i++) {
+    if (tracks[i].startOffset <= position) {
+      index = i;
+    } else {
+      break;
+    }
+  }
+
+  const startOffset = tracks.length > 0 ? tracks[index].startOffset : 0;
+  return { index, offset: Math.max(0, position - startOffset) };
 }
 
 /**
  * Audio pipeline with real-time volume control
  *
  * Architecture:
- * Input (URL/file) → ffmpeg decode → VolumeTransform (PCM) → ffmpeg encode → Output (MP3)
+ * Input (URL/file, track by track) → ffmpeg decode → VolumeTransform (PCM) → TempoTransform (PCM)
+ * → ffmpeg encode → Output (MP3)
  */
 export class AudioPipeline {
   private decoder?: ChildProcess;
   private encoder?: ChildProcess;
   private readonly volumeTransform: VolumeTransform;
+  private readonly tempoTransform: TempoTransform;
   private readonly output: PassThrough;
   private _isRunning = false;
   private _bytesOutput = 0;
-  private readonly bitrate: number;
+  private _pcmBytes = 0;
+  private encodeLimit?: number;
+  private throttled = false;
+  private readonly byteRate: number;
   private readonly startPosition: number;
+  private readonly tracks: PipelineTrack[];
 
+  /**
+   * @throws Error if neither inputUrl nor tracks are given
+   */
   constructor(private readonly options: AudioPipelineOptions) {
+    if (options.tracks && options.tracks.length > 0) {
+      this.tracks = [...options.tracks].sort((a, b) => a.startOffset - b.startOffset);
+    } else if (options.inputUrl) {
+      this.tracks = [{ url: options.inputUrl, startOffset: 0 }];
+    } else {
+      throw new Error('AudioPipeline requires an inputUrl or tracks');
+    }
+
     this.volumeTransform = new VolumeTransform({
       initialVolume: options.initialVolume ?? 1.0,
     });
+    this.tempoTransform = new TempoTransform({
+      initialSpeed: options.initialSpeed,
+      sampleRate: options.sampleRate,
+      channels: options.channels,
+    });
     this.output = new PassThrough();
-    this.bitrate = parseInt(options.outputBitrate ?? '192k', 10) * 1000;
+    this.byteRate = getOutputByteRate(options.outputBitrate);
     this.startPosition = options.startPosition ?? 0;
   }
 
@@ -82,6 +187,20 @@ export class AudioPipeline {
     return this.volumeTransform.volume;
   }
 
+  /**
+   * Set playback speed (0.5 - 3.0), keeping pitch
+   */
+  setSpeed(speed: number): void {
+    this.tempoTransform.setSpeed(speed);
+  }
+
+  /**
+   * Get current playback speed
+   */
+  getSpeed(): number {
+    return this.tempoTransform.speed;
+  }
+
   /**
    * Check if pipeline is running
    */
@@ -90,11 +209,56 @@ export class AudioPipeline {
   }
 
   /**
-   * Get current playback position in seconds (estimated from bytes output)
+   * Get current playback position in seconds from the start of the book
+   * (estimated from bytes output, continuous across tracks)
+   *
+   * Output time is mapped back through the tempo transform, so the position
+   * stays in book time at any speed.
    */
   getCurrentPosition(): number {
-    // Position = start offset + (bytes * 8) / bitrate
-    return this.startPosition + (this._bytesOutput * 8) / this.bitrate;
+    let outputSeconds: number;
+    if (this.options.hls || (this.options.outputFormat ?? 'mp3') !== 'mp3') {
+      // Only MP3 is streamed at a constant bitrate, so count the PCM fed to the encoder instead
+      const pcmByteRate = (this.options.sampleRate ?? 44100) * (this.options.channels ?? 2) * 2;
+      outputSeconds = this._pcmBytes / pcmByteRate;
+    } else {
+      // Output time = bytes / (bitrate / 8)
+      outputSeconds = this._bytesOutput / this.byteRate;
+    }
+    return this.startPosition + this.tempoTransform.toInputTime(outputSeconds);
+  }
+
+  /**
+   * Pause encoding once the position reaches a limit
+   *
+   * Keeps an HLS pipeline from encoding far ahead of the player; raising the
+   * limit (or clearing it) resumes encoding.
+   *
+   * @param position - Position in seconds from the start of the book, or undefined for no limit
+   */
+  setEncodeLimit(position: number | undefined): void {
+    this.encodeLimit = position;
+    this.updateThrottle();
+  }
+
+  /**
+   * Pause or resume feeding the encoder according to the encode limit
+   */
+  private updateThrottle(): void {
+    const stdin = this.encoder?.stdin;
+    if (!stdin) {
+      return;
+    }
+
+    const limited = this.encodeLimit !== undefined && this.getCurrentPosition() >= this.encodeLimit;
+    if (limited && !this.throttled) {
+      this.throttled = true;
+      this.tempoTransform.unpipe(stdin);
+      this.tempoTransform.pause();
+    } else if (!limited && this.throttled) {
+      this.throttled = false;
+      this.tempoTransform.pipe(stdin);
+    }
   }
 
   /**
@@ -107,30 +271,24 @@ export class AudioPipeline {
 
     this._isRunning = true;
 
-    // Build decoder args
-    const decoderArgs = this.buildDecoderArgs();
-
-    // Build encoder args
-    const encoderArgs = this.buildEncoderArgs();
-
-    // Spawn decoder
-    this.decoder = spawn('ffmpeg', decoderArgs, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
     // Spawn encoder
-    this.encoder = spawn('ffmpeg', encoderArgs, {
+    this.encoder = spawn('ffmpeg', this.buildEncoderArgs(), {
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
     // Wire up the pipeline:
-    // decoder.stdout → volumeTransform → encoder.stdin
+    // decoder.stdout (one per track) → volumeTransform → tempoTransform → encoder.stdin
     // encoder.stdout → output
 
-    if (this.decoder.stdout && this.encoder.stdin) {
-      this.decoder.stdout.pipe(this.volumeTransform).pipe(this.encoder.stdin);
+    if (this.encoder.stdin) {
+      this.volumeTransform.pipe(this.tempoTransform).pipe(this.encoder.stdin);
     }
 
+    this.tempoTransform.on('data', (chunk: Buffer) => {
+      this._pcmBytes += chunk.length;
+      this.updateThrottle();
+    });
+
     if (this.encoder.stdout) {
       this.encoder.stdout.on('data', (chunk: Buffer) => {
         this._bytesOutput += chunk.length;
@@ -143,23 +301,56 @@ export class AudioPipeline {
     }
 
     // Handle errors
-    this.decoder.on('error', (err) => {
+    this.encoder.on('error', (err) => {
       this.output.destroy(err);
     });
 
-    this.encoder.on('error', (err) => {
+    this.encoder.on('exit', (code) => {
+      if (this._isRunning && code !== 0) {
+        this.output.destroy(new Error(`Encoder exited with code ${String(code)}`));
+      }
+      this._isRunning = false;
+    });
+
+    const { index, offset } = findTrackAt(this.tracks, this.startPosition);
+    this.decodeTrack(index, offset);
+  }
+
+  /**
+   * Decode one track into the volume transform, then continue with the next
+   *
+   * The transform (and so the encoder input) ends after the last track.
+   */
+  private decodeTrack(index: number, offset: number): void {
+    if (!this._isRunning) {
+      return;
+    }
+    if (index >= this.tracks.length) {
+      this.volumeTransform.end();
+      return;
+    }
+
+    const decoder = spawn('ffmpeg', this.buildDecoderArgs(this.tracks[index].url, offset), {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.decoder = decoder;
+
+    decoder.stdout.pipe(this.volumeTransform, { end: false });
+
+    decoder.on('error', (err) => {
       this.output.destroy(err);
     });
 
-    // Handle process exit
-    this.decoder.on('exit', (code) => {
+    // 'close' fires once stdout has been fully read, so no audio is lost
+    decoder.on('close', (code) => {
+      if (!this._isRunning) {
+        return;
+      }
       if (code !== 0) {
         this.output.destroy(new Error(`Decoder exited with code ${String(code)}`));
+        return;
       }
-    });
-
-    this.encoder.on('exit', () => {
-      this._isRunning = false;
+      this.decodeTrack(index + 1, 0);
     });
   }
 
@@ -184,22 +375,25 @@ export class AudioPipeline {
 
   /**
    * Build decoder ffmpeg arguments
+   *
+   * @param inputUrl - Track URL or file path
+   * @param offset - Position within the track in seconds
    */
-  private buildDecoderArgs(): string[] {
+  private buildDecoderArgs(inputUrl: string, offset: number): string[] {
     const args: string[] = [];
 
     // Input headers if auth needed
-    if (this.options.authHeader) {
-      args.push('-headers', `Authorization: ${this.options.authHeader}\r\n`);
+    if (this.options.getAuthHeader) {
+      args.push('-headers', `Authorization: ${this.options.getAuthHeader()}\r\n`);
     }
 
     // Seek to start position
-    if (this.startPosition > 0) {
-      args.push('-ss', String(this.startPosition));
+    if (offset > 0) {
+      args.push('-ss', String(offset));
     }
 
     // Input
-    args.push('-i', this.options.inputUrl);
+    args.push('-i', inputUrl);
 
     // Output format: raw PCM
     args.push(
@@ -221,7 +415,7 @@ export class AudioPipeline {
    * Build encoder ffmpeg arguments
    */
   private buildEncoderArgs(): string[] {
-    return [
+    const input = [
       '-f',
       's16le',
       '-ar',
@@ -230,12 +424,40 @@ export class AudioPipeline {
       String(this.options.channels ?? 2),
       '-i',
       'pipe:0',
-      '-acodec',
-      'libmp3lame',
-      '-b:a',
-      this.options.outputBitrate ?? '192k',
-      '-f',
-      'mp3',
+    ];
+
+    const hls = this.options.hls;
+    if (hls) {
+      const segmentDuration = hls.segmentDuration ?? HLS_SEGMENT_DURATION;
+      // Segments are numbered and timestamped from the start of the book, and
+      // only renamed into place once complete
+      return [
+        ...input,
+        '-acodec',
+        'aac',
+        '-b:a',
+        this.options.outputBitrate ?? DEFAULT_OUTPUT_BITRATE,
+        '-output_ts_offset',
+        String(this.startPosition),
+        '-f',
+        'hls',
+        '-hls_time',
+        String(segmentDuration),
+        '-hls_list_size',
+        '0',
+        '-hls_flags',
+        'temp_file',
+        '-start_number',
+        String(Math.round(this.startPosition / segmentDuration)),
+        '-hls_segment_filename',
+        join(hls.directory, 'segment-%d.ts'),
+        join(hls.directory, 'encoder.m3u8'),
+      ];
+    }
+
+    return [
+      ...input,
+      ...getEncoderArgs(this.options.outputFormat ?? 'mp3', this.options.outputBitrate),
       'pipe:1',
     ];
   }
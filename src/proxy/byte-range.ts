@@ -0,0 +1,54 @@
+/**
+ * HTTP byte ranges
+ *
+ * Parses `Range` request headers so the proxy can answer seeks inside a
+ * stream with 206 Partial Content responses.
+ */
+
+/**
+ * Inclusive byte range within a resource
+ */
+export interface ByteRange {
+  /** First byte */
+  start: number;
+  /** Last byte (inclusive) */
+  end: number;
+}
+
+/**
+ * Parse a `Range` header against a resource size
+ *
+ * Supports `bytes=start-end`, `bytes=start-` and suffix ranges
+ * (`bytes=-length`). Only the first range of a multi-range request is used.
+ * The end is clamped to the last byte of the resource.
+ *
+ * @param header - Range header value
+ * @param size - Resource size in bytes
+ * @returns The range, or null if the header is malformed or unsatisfiable
+ */
+export function parseByteRange(header: string, size: number): ByteRange | null {
+  const match = /^bytes=\s*(\d*)\s*-\s*(\d*)\s*(?:,.*)?$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '') || size <= 0) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0) {
+      return null;
+    }
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || end < start) {
+    return null;
+  }
+  return { start, end };
+}
@@ -0,0 +1,70 @@
+/**
+ * HLS playlists
+ *
+ * The proxy can serve a book as an HLS (HTTP Live Streaming) playlist of
+ * short AAC segments instead of one progressive MP3 stream. The playlist is
+ * built up front from the book's duration, so players show the full length
+ * and a seek bar; segments are encoded on demand by the audio pipeline.
+ */
+
+/** Length of each HLS segment in seconds */
+export const HLS_SEGMENT_DURATION = 6;
+
+/** Name of the HLS playlist file served by the proxy */
+export const HLS_PLAYLIST_NAME = 'playlist.m3u8';
+
+/**
+ * Get the file name of a segment
+ *
+ * @param index - Segment number, counting from 0 at the start of the book
+ */
+export function getSegmentFileName(index: number): string {
+  return `segment-${String(index)}.ts`;
+}
+
+/**
+ * Parse a segment file name back to its number
+ *
+ * @returns The segment number, or null if the name is not a segment
+ */
+export function parseSegmentFileName(name: string): number | null {
+  const match = /^segment-(\d+)\.ts$/.exec(name);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Get the number of segments covering a duration
+ */
+export function getSegmentCount(duration: number, segmentDuration = HLS_SEGMENT_DURATION): number {
+  return Math.max(0, Math.ceil(duration / segmentDuration));
+}
+
+/**
+ * Build a VOD playlist listing every segment of a book
+ *
+ * @param duration - Duration of the book in seconds
+ * @param segmentUri - URI of a segment, relative to the playlist
+ * @param segmentDuration - Segment length in seconds
+ */
+export function buildHlsPlaylist(
+  duration: number,
+  segmentUri: (index: number) => string,
+  segmentDuration = HLS_SEGMENT_DURATION
+): string {
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${String(Math.ceil(segmentDuration))}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+  ];
+
+  const count = getSegmentCount(duration, segmentDuration);
+  for (let index = 0; index < count; index++) {
+    const length = Math.min(segmentDuration, duration - index * segmentDuration);
+    lines.push(`#EXTINF:${length.toFixed(3)},`, segmentUri(index));
+  }
+
+  lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
@@ -7,17 +7,39 @@
 
 export { VolumeTransform, type VolumeTransformOptions } from './volume-transform.js';
 
+export {
+  TempoTransform,
+  MIN_SPEED,
+  MAX_SPEED,
+  type TempoTransformOptions,
+} from './tempo-transform.js';
+
 export {
   AudioPipeline,
   type AudioPipelineOptions,
+  type HlsOutputOptions,
 } from './audio-pipeline.js';
 
+export {
+  OUTPUT_FORMATS,
+  getContentType,
+  isOutputFormat,
+  type OutputFormat,
+} from './output-format.js';
+
 export {
   ProxyServer,
+  resolvePublicUrl,
   type ProxyServerOptions,
   type StreamSession,
 } from './server.js';
 
+export {
+  createStreamToken,
+  verifyStreamToken,
+  type StreamTokenClaims,
+} from './stream-token.js';
+
 export {
   fadeVolume,
   fadeOut,
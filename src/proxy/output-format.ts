@@ -0,0 +1,75 @@
+/**
+ * Output formats
+ *
+ * Codecs the audio proxy can encode to, with their ffmpeg settings and MIME
+ * types. Lossy formats have their own default bitrate; Opus is tuned low for
+ * listeners on mobile data.
+ */
+
+/**
+ * Encoded output format
+ */
+export type OutputFormat = 'mp3' | 'aac' | 'opus' | 'flac' | 'wav';
+
+/** Supported output formats */
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['mp3', 'aac', 'opus', 'flac', 'wav'];
+
+/**
+ * ffmpeg settings and MIME type of an output format
+ */
+interface OutputFormatSpec {
+  /** ffmpeg encoder */
+  codec: string;
+  /** ffmpeg muxer */
+  muxer: string;
+  contentType: string;
+  /** Default bitrate (lossy formats only) */
+  bitrate?: string;
+}
+
+const FORMAT_SPECS: Record<OutputFormat, OutputFormatSpec> = {
+  mp3: { codec: 'libmp3lame', muxer: 'mp3', contentType: 'audio/mpeg', bitrate: '192k' },
+  aac: { codec: 'aac', muxer: 'adts', contentType: 'audio/aac', bitrate: '128k' },
+  opus: { codec: 'libopus', muxer: 'ogg', contentType: 'audio/ogg; codecs=opus', bitrate: '64k' },
+  flac: { codec: 'flac', muxer: 'flac', contentType: 'audio/flac' },
+  wav: { codec: 'pcm_s16le', muxer: 'wav', contentType: 'audio/wav' },
+};
+
+/**
+ * Check whether a value names a supported output format
+ */
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Get the MIME type served for a format
+ */
+export function getContentType(format: OutputFormat): string {
+  return FORMAT_SPECS[format].contentType;
+}
+
+/**
+ * Get the default bitrate of a format
+ *
+ * @returns The bitrate, or undefined for lossless formats
+ */
+export function getDefaultBitrate(format: OutputFormat): string | undefined {
+  return FORMAT_SPECS[format].bitrate;
+}
+
+/**
+ * Build the ffmpeg codec and muxer arguments for a format
+ *
+ * @param format - Output format
+ * @param bitrate - Bitrate for lossy formats (default: the format's own)
+ */
+export function getEncoderArgs(format: OutputFormat, bitrate?: string): string[] {
+  const spec = FORMAT_SPECS[format];
+  const args = ['-acodec', spec.codec];
+  if (spec.bitrate) {
+    args.push('-b:a', bitrate ?? spec.bitrate);
+  }
+  args.push('-f', spec.muxer);
+  return args;
+}
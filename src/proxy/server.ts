@@ -3,21 +3,91 @@
  *
  * HTTP server that proxies audio from Audiobookshelf with real-time volume control.
  * Cast devices stream from this server, enabling silent volume fades.
+ * Streams and covers require a signed stream token (see stream-token.ts), so
+ * devices never see the Audiobookshelf API token.
+ *
+ * Streams advertise their length and answer byte-range requests by mapping
+ * byte offsets to time offsets at the constant output bitrate. A range
+ * request with the same stream token restarts the session's pipeline at the
+ * new position but keeps its session ID and volume, so seeks don't interrupt
+ * fades or volume control. Byte ranges need a constant bitrate, so they are
+ * offered for MP3 only; other formats (`?format=`) stream without a length.
+ * Playback speed can be changed live on progressive streams; positions stay
+ * in book time.
+ *
+ * `/hls/:bookId/playlist.m3u8` serves the same audio as an HLS playlist of
+ * AAC segments (see hls.ts), encoded into a temporary directory as players
+ * ask for them.
  */
 
 import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
 import { EventEmitter } from 'events';
-import { AudioPipeline, type AudioPipelineOptions } from './audio-pipeline.js';
+import { access, mkdtemp, readFile, rm } from 'fs/promises';
+import { networkInterfaces, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AudioPipeline,
+  getOutputByteRate,
+  type AudioPipelineOptions,
+  type PipelineTrack,
+} from './audio-pipeline.js';
+import { AudiobookshelfClient, type CoverUrlOptions } from '../lib/client.js';
+import type { AuthTokens } from '../lib/types.js';
+import { verifyStreamToken, type StreamTokenClaims } from './stream-token.js';
+import { parseByteRange, type ByteRange } from './byte-range.js';
+import { MIN_SPEED, MAX_SPEED } from './tempo-transform.js';
+import {
+  getContentType,
+  getDefaultBitrate,
+  isOutputFormat,
+  type OutputFormat,
+} from './output-format.js';
+import {
+  HLS_PLAYLIST_NAME,
+  HLS_SEGMENT_DURATION,
+  buildHlsPlaylist,
+  getSegmentCount,
+  getSegmentFileName,
+  parseSegmentFileName,
+} from './hls.js';
 
 /**
  * Active stream session
  */
 export interface StreamSession {
   id: string;
+  /** Pipeline serving the latest request (replaced on every seek) */
   pipeline: AudioPipeline;
   startTime: number;
   bookId: string;
+  episodeId?: string;
+  /** Position the latest request started from in seconds */
   startPosition: number;
+  /** Stream token the session was opened with */
+  token: string;
+  /** Audio files being decoded */
+  tracks: PipelineTrack[];
+  /** Encoded format (AAC for HLS sessions) */
+  format: OutputFormat;
+  /** Duration of the book or episode in seconds (0 if unknown) */
+  duration: number;
+  /** Directory holding the session's HLS segments (HLS sessions only) */
+  hlsDirectory?: string;
+  /**
+   * Stream was requested with `?speed=`, so it is sent without a length and
+   * its speed can change live. Other progressive streams keep normal speed,
+   * since a speed change would invalidate the length already sent.
+   */
+  variableSpeed: boolean;
+}
+
+/**
+ * Audio to decode for a book or podcast episode
+ */
+interface StreamSource {
+  tracks: PipelineTrack[];
+  /** Duration in seconds (0 if unknown) */
+  duration: number;
 }
 
 /**
@@ -36,23 +106,143 @@ export interface ProxyServerOptions {
   audiobookshelfUrl: string;
   /** Audiobookshelf API token */
   audiobookshelfToken: string;
+  /** Refresh token used to renew an expired Audiobookshelf token */
+  audiobookshelfRefreshToken?: string;
+  /** Called with the new tokens after a refresh so they can be persisted */
+  onTokenRefresh?: (tokens: AuthTokens) => void | Promise<void>;
+  /** Secret for verifying stream tokens */
+  streamSecret: string;
+  /** How long a session outlives its last stream request, so a seek can resume it (default: 30000) */
+  sessionIdleMs?: number;
+  /** Format of streams requested without `?format=` (default: mp3) */
+  outputFormat?: OutputFormat;
 }
 
 /** Default trusted proxies (localhost only) */
 const DEFAULT_TRUSTED_PROXIES = ['127.0.0.1/32', '::1/128'];
 
+/** Default time a session is kept after its stream closes */
+const DEFAULT_SESSION_IDLE_MS = 30000;
+
+/** Time an HLS session is kept without requests - players stop fetching while paused */
+const HLS_SESSION_IDLE_MS = 10 * 60 * 1000;
+
+/** How far an HLS pipeline may encode ahead of the last requested segment in seconds */
+const HLS_ENCODE_AHEAD = 60;
+
+/** Segments beyond the encoder position still worth waiting for instead of restarting */
+const HLS_WAIT_SEGMENTS = 5;
+
+/** How long a segment request waits for the encoder */
+const HLS_SEGMENT_TIMEOUT_MS = 30000;
+
+/** Poll interval while waiting for a segment */
+const HLS_POLL_MS = 100;
+
+/**
+ * Parse the `start` query parameter of a stream request
+ *
+ * @returns The start position in seconds (0 if absent), or null if it is not
+ *   a finite, non-negative number
+ */
+function parseStartPosition(searchParams: URLSearchParams): number | null {
+  const value = searchParams.get('start');
+  if (value === null) {
+    return 0;
+  }
+  const position = Number(value);
+  return value.trim() !== '' && Number.isFinite(position) && position >= 0 ? position : null;
+}
+
+/**
+ * Parse the `speed` query parameter of a stream request
+ *
+ * @returns The speed, undefined if absent, or null if it is not a number
+ *   within MIN_SPEED-MAX_SPEED
+ */
+function parseSpeed(searchParams: URLSearchParams): number | null | undefined {
+  const value = searchParams.get('speed');
+  if (value === null) {
+    return undefined;
+  }
+  const speed = Number(value);
+  return value.trim() !== '' && speed >= MIN_SPEED && speed <= MAX_SPEED ? speed : null;
+}
+
+/**
+ * Parse the size and format query parameters of a cover request
+ *
+ * Sizes that are not positive whole numbers and unknown formats are ignored.
+ */
+function parseCoverOptions(searchParams: URLSearchParams): CoverUrlOptions {
+  const options: CoverUrlOptions = {};
+  for (const name of ['width', 'height'] as const) {
+    const size = Number(searchParams.get(name));
+    if (Number.isInteger(size) && size > 0) {
+      options[name] = size;
+    }
+  }
+  const format = searchParams.get('format');
+  if (format === 'jpeg' || format === 'webp') {
+    options.format = format;
+  }
+  return options;
+}
+
+/**
+ * Check whether a file exists
+ */
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the URL Cast devices use to reach the proxy
+ *
+ * Returns publicUrl if configured. A wildcard host falls back to this
+ * machine's first LAN IPv4 address (or 127.0.0.1 without one).
+ */
+export function resolvePublicUrl(
+  options: Pick<ProxyServerOptions, 'publicUrl' | 'host' | 'port'>
+): string {
+  if (options.publicUrl) {
+    // Remove trailing slash if present
+    return options.publicUrl.replace(/\/$/, '');
+  }
+
+  let host = options.host ?? '::';
+  if (host === '::' || host === '0.0.0.0') {
+    const lan = Object.values(networkInterfaces())
+      .flat()
+      .find((address) => address?.family === 'IPv4' && !address.internal);
+    host = lan?.address ?? '127.0.0.1';
+  }
+  return `http://${host}:${String(options.port ?? 8765)}`;
+}
+
 /**
  * Audio proxy server with real-time volume control
  */
 export class ProxyServer extends EventEmitter {
   private server?: Server;
   private readonly sessions = new Map<string, StreamSession>();
+  private readonly idleTimers = new Map<string, NodeJS.Timeout>();
+  /** HLS sessions being opened, by stream token, so concurrent first requests share one */
+  private readonly pendingHlsSessions = new Map<string, Promise<StreamSession>>();
   private readonly port: number;
   private readonly host: string;
   private readonly trustedProxies: string[];
   private readonly publicUrl?: string;
   private readonly absUrl: string;
-  private readonly absToken: string;
+  private readonly streamSecret: string;
+  private readonly absClient: AudiobookshelfClient;
+  private readonly sessionIdleMs: number;
+  private readonly outputFormat: OutputFormat;
 
   constructor(options: ProxyServerOptions) {
     super();
@@ -61,7 +251,15 @@ export class ProxyServer extends EventEmitter {
     this.trustedProxies = options.trustedProxies ?? DEFAULT_TRUSTED_PROXIES;
     this.publicUrl = options.publicUrl;
     this.absUrl = options.audiobookshelfUrl;
-    this.absToken = options.audiobookshelfToken;
+    this.streamSecret = options.streamSecret;
+    this.sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+    this.outputFormat = options.outputFormat ?? 'mp3';
+    this.absClient = new AudiobookshelfClient({
+      url: options.audiobookshelfUrl,
+      apiKey: options.audiobookshelfToken,
+      refreshToken: options.audiobookshelfRefreshToken,
+      onTokenRefresh: options.onTokenRefresh,
+    });
   }
 
   /**
@@ -93,7 +291,12 @@ export class ProxyServer extends EventEmitter {
     for (const [sessionId, session] of this.sessions) {
       session.pipeline.stop();
       this.sessions.delete(sessionId);
+      await this.removeHlsDirectory(session);
     }
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
 
     return new Promise((resolve) => {
       if (!this.server) {
@@ -135,6 +338,24 @@ export class ProxyServer extends EventEmitter {
     return true;
   }
 
+  /**
+   * Set playback speed for a session
+   *
+   * Only streams requested with `?speed=` can change speed. HLS sessions and
+   * fixed-length streams keep normal speed, since their timeline or length
+   * has already been sent.
+   *
+   * @returns false if there is no such variable-speed session
+   */
+  setSessionSpeed(sessionId: string, speed: number): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session?.variableSpeed) {
+      return false;
+    }
+    session.pipeline.setSpeed(speed);
+    return true;
+  }
+
   /**
    * Get current position for a session
    */
@@ -154,8 +375,10 @@ export class ProxyServer extends EventEmitter {
     if (!session) {
       return false;
     }
+    this.clearIdleTimer(sessionId);
     session.pipeline.stop();
     this.sessions.delete(sessionId);
+    void this.removeHlsDirectory(session);
     return true;
   }
 
@@ -164,13 +387,7 @@ export class ProxyServer extends EventEmitter {
    * Returns publicUrl if configured, otherwise constructs from host:port
    */
   getServerUrl(): string {
-    if (this.publicUrl) {
-      // Remove trailing slash if present
-      return this.publicUrl.replace(/\/$/, '');
-    }
-    // Fallback to local URL (for local testing)
-    const host = this.host === '::' || this.host === '0.0.0.0' ? '127.0.0.1' : this.host;
-    return `http://${host}:${String(this.port)}`;
+    return resolvePublicUrl({ publicUrl: this.publicUrl, host: this.host, port: this.port });
   }
 
   /**
@@ -190,9 +407,58 @@ export class ProxyServer extends EventEmitter {
     const streamRegex = /^\/stream\/([^/]+)$/;
     const streamMatch = streamRegex.exec(url.pathname);
     if (streamMatch && req.method === 'GET') {
-      const bookId = streamMatch[1];
-      const startPosition = parseFloat(url.searchParams.get('start') ?? '0');
-      this.handleStreamRequest(res, bookId, startPosition);
+      const claims = this.authorize(res, streamMatch[1], url.searchParams);
+      if (claims) {
+        const format = url.searchParams.get('format') ?? this.outputFormat;
+        if (!isOutputFormat(format)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `Unsupported format: ${format}` }));
+          return;
+        }
+        const startPosition = parseStartPosition(url.searchParams);
+        if (startPosition === null) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid start position' }));
+          return;
+        }
+        const speed = parseSpeed(url.searchParams);
+        if (speed === null) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid speed (0.5-3.0)' }));
+          return;
+        }
+        const token = url.searchParams.get('token') ?? '';
+        void this.handleStreamRequest(req, res, token, claims, format, startPosition, speed);
+      }
+      return;
+    }
+
+    // Route: GET /hls/:bookId/:file
+    const hlsRegex = /^\/hls\/([^/]+)\/([^/]+)$/;
+    const hlsMatch = hlsRegex.exec(url.pathname);
+    if (hlsMatch && req.method === 'GET') {
+      const claims = this.authorize(res, hlsMatch[1], url.searchParams);
+      if (claims) {
+        const startPosition = parseStartPosition(url.searchParams);
+        if (startPosition === null) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid start position' }));
+          return;
+        }
+        const token = url.searchParams.get('token') ?? '';
+        void this.handleHlsRequest(res, token, claims, hlsMatch[2], startPosition);
+      }
+      return;
+    }
+
+    // Route: GET /cover/:bookId
+    const coverRegex = /^\/cover\/([^/]+)$/;
+    const coverMatch = coverRegex.exec(url.pathname);
+    if (coverMatch && req.method === 'GET') {
+      const claims = this.authorize(res, coverMatch[1], url.searchParams);
+      if (claims) {
+        void this.handleCoverRequest(res, claims.bookId, url.searchParams);
+      }
       return;
     }
 
@@ -205,6 +471,15 @@ export class ProxyServer extends EventEmitter {
       return;
     }
 
+    // Route: POST /speed/:sessionId
+    const speedRegex = /^\/speed\/([^/]+)$/;
+    const speedMatch = speedRegex.exec(url.pathname);
+    if (speedMatch && req.method === 'POST') {
+      const sessionId = speedMatch[1];
+      this.handleSpeedRequest(req, res, sessionId);
+      return;
+    }
+
     // Route: GET /status/:sessionId
     const statusRegex = /^\/status\/([^/]+)$/;
     const statusMatch = statusRegex.exec(url.pathname);
@@ -236,60 +511,518 @@ export class ProxyServer extends EventEmitter {
   }
 
   /**
-   * Handle stream request
+   * Check the stream token of a request for an item
+   *
+   * Answers 401 itself when the token is missing, invalid, expired or
+   * issued for another item.
+   *
+   * @returns The token claims, or null if the request was rejected
    */
-  private handleStreamRequest(
+  private authorize(
     res: ServerResponse,
     bookId: string,
-    startPosition: number
-  ): void {
-    // Generate session ID
-    const sessionId = `${bookId}-${String(Date.now())}`;
+    searchParams: URLSearchParams
+  ): StreamTokenClaims | null {
+    const token = searchParams.get('token');
+    const claims = token ? verifyStreamToken(token, this.streamSecret) : null;
+    if (claims?.bookId !== bookId) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid or expired stream token' }));
+      return null;
+    }
+    return claims;
+  }
+
+  /**
+   * Get the audio files to decode for a book or podcast episode
+   *
+   * Books are decoded track by track from their audio files; episodes (and
+   * books without track information) use the single play URL.
+   */
+  private async getStreamSource(bookId: string, episodeId?: string): Promise<StreamSource> {
+    const playUrl = `${this.absUrl}/api/items/${bookId}/play`;
+    if (episodeId) {
+      const episodes = await this.absClient.getPodcastEpisodes(bookId);
+      return {
+        tracks: [{ url: `${playUrl}/${episodeId}`, startOffset: 0 }],
+        duration: episodes.find((episode) => episode.id === episodeId)?.duration ?? 0,
+      };
+    }
+
+    const details = await this.absClient.getItem(bookId);
+    if (details.audioTracks.length === 0) {
+      return { tracks: [{ url: playUrl, startOffset: 0 }], duration: details.duration };
+    }
+    return {
+      tracks: [...details.audioTracks]
+        .sort((a, b) => a.index - b.index)
+        .map((track) => ({ url: `${this.absUrl}${track.contentUrl}`, startOffset: track.startOffset })),
+      duration: details.duration,
+    };
+  }
+
+  /**
+   * Find the session opened with a stream token
+   */
+  private findSessionByToken(
+    token: string,
+    format: OutputFormat,
+    hls: boolean,
+    variableSpeed = false
+  ): StreamSession | undefined {
+    return Array.from(this.sessions.values()).find(
+      (session) =>
+        session.token === token &&
+        session.format === format &&
+        (session.hlsDirectory !== undefined) === hls &&
+        session.variableSpeed === variableSpeed
+    );
+  }
 
-    // Build Audiobookshelf stream URL
-    const streamUrl = `${this.absUrl}/api/items/${bookId}/play`;
+  /**
+   * Cancel the pending end of an idle session
+   */
+  private clearIdleTimer(sessionId: string): void {
+    const timer = this.idleTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(sessionId);
+    }
+  }
 
-    // Create pipeline
+  /**
+   * End a session unless another request resumes it within the idle period
+   */
+  private scheduleSessionEnd(session: StreamSession, idleMs = this.sessionIdleMs): void {
+    this.clearIdleTimer(session.id);
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(session.id);
+      if (this.sessions.get(session.id) === session) {
+        session.pipeline.stop();
+        this.sessions.delete(session.id);
+        void this.removeHlsDirectory(session);
+        this.emit('session-ended', { sessionId: session.id, bookId: session.bookId });
+      }
+    }, idleMs);
+    timer.unref();
+    this.idleTimers.set(session.id, timer);
+  }
+
+  /**
+   * Handle stream request
+   *
+   * Requests without a Range header stream from the start position; range
+   * requests start at the time offset of their first byte and answer 206.
+   * Streams of unknown duration, without a constant bitrate or with a
+   * requested speed are sent chunked without range support.
+   *
+   * @param speed - Speed requested with `?speed=`, making the stream variable-speed
+   */
+  private async handleStreamRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: string,
+    claims: StreamTokenClaims,
+    format: OutputFormat,
+    basePosition: number,
+    speed?: number
+  ): Promise<void> {
+    const { bookId, episodeId } = claims;
+    const variableSpeed = speed !== undefined;
+
+    let session = this.findSessionByToken(token, format, false, variableSpeed);
+    let source: StreamSource;
+    if (session) {
+      source = session;
+    } else {
+      try {
+        source = await this.getStreamSource(bookId, episodeId);
+      } catch {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Could not load audio tracks' }));
+        return;
+      }
+    }
+
+    // Fixed-length streams always run at normal speed, so bytes map to book time
+    const byteRate = getOutputByteRate(getDefaultBitrate(format));
+    const size =
+      format === 'mp3' && !variableSpeed && source.duration > basePosition
+        ? Math.ceil((source.duration - basePosition) * byteRate)
+        : 0;
+
+    let range: ByteRange | null = null;
+    const rangeHeader = req.headers.range;
+    if (size > 0 && rangeHeader) {
+      range = parseByteRange(rangeHeader, size);
+      if (!range) {
+        res.writeHead(416, {
+          'Content-Type': 'application/json',
+          'Content-Range': `bytes */${String(size)}`,
+        });
+        res.end(JSON.stringify({ error: 'Range not satisfiable' }));
+        return;
+      }
+    }
+
+    const startPosition = basePosition + (range ? range.start / byteRate : 0);
+
+    // Create pipeline, carrying volume over when resuming a session
     const pipelineOptions: AudioPipelineOptions = {
-      inputUrl: streamUrl,
+      tracks: source.tracks,
       startPosition,
-      authHeader: `Bearer ${this.absToken}`,
+      outputFormat: format,
+      getAuthHeader: () => `Bearer ${this.absClient.getAccessToken()}`,
+      initialVolume: session?.pipeline.getVolume(),
+      initialSpeed: speed,
     };
 
     const pipeline = new AudioPipeline(pipelineOptions);
 
-    // Store session
-    const session: StreamSession = {
-      id: sessionId,
-      pipeline,
-      startTime: Date.now(),
-      bookId,
-      startPosition,
-    };
-    this.sessions.set(sessionId, session);
+    if (session) {
+      this.clearIdleTimer(session.id);
+      const previous = session.pipeline;
+      session.pipeline = pipeline;
+      session.startPosition = startPosition;
+      previous.stop();
+    } else {
+      session = {
+        id: `${bookId}-${String(Date.now())}`,
+        pipeline,
+        startTime: Date.now(),
+        bookId,
+        episodeId,
+        startPosition,
+        token,
+        tracks: source.tracks,
+        format,
+        duration: source.duration,
+        variableSpeed,
+      };
+      this.sessions.set(session.id, session);
+      this.emit('session-started', { sessionId: session.id, bookId, startPosition });
+    }
+    const current = session;
 
     // Set response headers
-    res.writeHead(200, {
-      'Content-Type': 'audio/mpeg',
-      'Transfer-Encoding': 'chunked',
+    const headers: Record<string, string | number> = {
+      'Content-Type': getContentType(format),
       'Cache-Control': 'no-cache',
-      'X-Session-Id': sessionId,
-    });
+      'X-Session-Id': current.id,
+    };
+    let length: number | undefined;
+    if (size === 0) {
+      headers['Transfer-Encoding'] = 'chunked';
+    } else {
+      headers['Accept-Ranges'] = 'bytes';
+      length = range ? range.end - range.start + 1 : size;
+      headers['Content-Length'] = length;
+      if (range) {
+        headers['Content-Range'] = `bytes ${String(range.start)}-${String(range.end)}/${String(size)}`;
+      }
+    }
+    res.writeHead(range ? 206 : 200, headers);
 
     // Start pipeline and pipe to response
     pipeline.start();
-    const outputStream = pipeline.getOutputStream();
-
-    outputStream.pipe(res);
+    this.pipeToResponse(pipeline, res, length);
 
-    // Handle client disconnect
+    // Handle client disconnect - a seek may resume the session shortly
     res.on('close', () => {
       pipeline.stop();
-      this.sessions.delete(sessionId);
-      this.emit('session-ended', { sessionId, bookId });
+      if (current.pipeline === pipeline) {
+        this.scheduleSessionEnd(current);
+      }
+    });
+  }
+
+  /**
+   * Pipe pipeline output to a response, ending it after `length` bytes
+   */
+  private pipeToResponse(pipeline: AudioPipeline, res: ServerResponse, length?: number): void {
+    const output = pipeline.getOutputStream();
+    output.on('error', () => {
+      res.destroy();
     });
 
-    this.emit('session-started', { sessionId, bookId, startPosition });
+    if (length === undefined) {
+      output.pipe(res);
+      return;
+    }
+
+    let remaining = length;
+    output.on('data', (chunk: Buffer) => {
+      if (remaining <= 0) {
+        return;
+      }
+      const part = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+      remaining -= part.length;
+      res.write(part);
+      if (remaining === 0) {
+        res.end();
+        pipeline.stop();
+      }
+    });
+    output.on('end', () => {
+      res.end();
+    });
+  }
+
+  /**
+   * Handle HLS playlist and segment requests
+   *
+   * The first request opens a session with a temporary segment directory and
+   * a pipeline starting at the segment containing `start`; concurrent first
+   * requests share it. Every request keeps the session alive.
+   */
+  private async handleHlsRequest(
+    res: ServerResponse,
+    token: string,
+    claims: StreamTokenClaims,
+    file: string,
+    basePosition: number
+  ): Promise<void> {
+    const segment = parseSegmentFileName(file);
+    if (file !== HLS_PLAYLIST_NAME && segment === null) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    let session = this.findSessionByToken(token, 'aac', true);
+    if (!session) {
+      let pending = this.pendingHlsSessions.get(token);
+      if (!pending) {
+        pending = this.createHlsSession(
+          token,
+          claims,
+          segment ?? Math.floor(basePosition / HLS_SEGMENT_DURATION)
+        ).finally(() => {
+          this.pendingHlsSessions.delete(token);
+        });
+        this.pendingHlsSessions.set(token, pending);
+      }
+      try {
+        session = await pending;
+      } catch (error) {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: (error as Error).message }));
+        return;
+      }
+    }
+    this.scheduleSessionEnd(session, HLS_SESSION_IDLE_MS);
+
+    if (segment === null) {
+      const query = `?token=${encodeURIComponent(token)}`;
+      const playlist = buildHlsPlaylist(session.duration, (index) => getSegmentFileName(index) + query);
+      res.writeHead(200, {
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Cache-Control': 'no-cache',
+        'X-Session-Id': session.id,
+      });
+      res.end(playlist);
+      return;
+    }
+
+    if (segment >= getSegmentCount(session.duration)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const data = await this.getHlsSegment(session, segment);
+    if (!data) {
+      res.writeHead(502, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Segment not available' }));
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'video/mp2t',
+      'Content-Length': data.length,
+      'Cache-Control': 'no-cache',
+      'X-Session-Id': session.id,
+    });
+    res.end(data);
+  }
+
+  /**
+   * Open an HLS session encoding from a segment
+   *
+   * @throws Error if the audio tracks cannot be loaded or have no known duration
+   */
+  private async createHlsSession(
+    token: string,
+    claims: StreamTokenClaims,
+    segment: number
+  ): Promise<StreamSession> {
+    let source: StreamSource;
+    try {
+      source = await this.getStreamSource(claims.bookId, claims.episodeId);
+    } catch {
+      throw new Error('Could not load audio tracks');
+    }
+    if (source.duration <= 0) {
+      throw new Error('HLS needs a known duration');
+    }
+
+    const directory = await mkdtemp(join(tmpdir(), 'abs-hls-'));
+    const startPosition = segment * HLS_SEGMENT_DURATION;
+    const session: StreamSession = {
+      id: `${claims.bookId}-${String(Date.now())}`,
+      pipeline: this.startHlsPipeline(source.tracks, directory, segment),
+      startTime: Date.now(),
+      bookId: claims.bookId,
+      episodeId: claims.episodeId,
+      startPosition,
+      token,
+      tracks: source.tracks,
+      format: 'aac',
+      duration: source.duration,
+      hlsDirectory: directory,
+      variableSpeed: false,
+    };
+    this.watchHlsPipeline(session);
+    this.sessions.set(session.id, session);
+    this.emit('session-started', { sessionId: session.id, bookId: claims.bookId, startPosition });
+    return session;
+  }
+
+  /**
+   * Start an HLS pipeline at a segment, encoding at most HLS_ENCODE_AHEAD past it
+   */
+  private startHlsPipeline(
+    tracks: PipelineTrack[],
+    directory: string,
+    segment: number,
+    initialVolume?: number
+  ): AudioPipeline {
+    const startPosition = segment * HLS_SEGMENT_DURATION;
+    const pipeline = new AudioPipeline({
+      tracks,
+      startPosition,
+      getAuthHeader: () => `Bearer ${this.absClient.getAccessToken()}`,
+      initialVolume,
+      hls: { directory, segmentDuration: HLS_SEGMENT_DURATION },
+    });
+    pipeline.start();
+    pipeline.setEncodeLimit(startPosition + HLS_SEGMENT_DURATION + HLS_ENCODE_AHEAD);
+    return pipeline;
+  }
+
+  /**
+   * Get an encoded segment, waiting for the encoder if it is close
+   *
+   * Segments far from the encoder position (a seek) restart the session's
+   * pipeline at that segment, keeping its volume.
+   *
+   * @returns The segment data, or null if it could not be encoded in time
+   */
+  private async getHlsSegment(session: StreamSession, segment: number): Promise<Buffer | null> {
+    const directory = session.hlsDirectory ?? '';
+    const path = join(directory, getSegmentFileName(segment));
+    if (!(await fileExists(path))) {
+      const firstSegment = Math.round(session.startPosition / HLS_SEGMENT_DURATION);
+      const encodedSegment = Math.floor(session.pipeline.getCurrentPosition() / HLS_SEGMENT_DURATION);
+      if (
+        !session.pipeline.isRunning() ||
+        segment < firstSegment ||
+        segment > encodedSegment + HLS_WAIT_SEGMENTS
+      ) {
+        const previous = session.pipeline;
+        session.pipeline = this.startHlsPipeline(
+          session.tracks,
+          directory,
+          segment,
+          previous.getVolume()
+        );
+        session.startPosition = segment * HLS_SEGMENT_DURATION;
+        this.watchHlsPipeline(session);
+        previous.stop();
+      }
+    }
+
+    // Keep encoding up to a minute past the segment the player is on
+    session.pipeline.setEncodeLimit((segment + 1) * HLS_SEGMENT_DURATION + HLS_ENCODE_AHEAD);
+
+    const deadline = Date.now() + HLS_SEGMENT_TIMEOUT_MS;
+    while (!(await fileExists(path))) {
+      if (
+        this.sessions.get(session.id) !== session ||
+        !session.pipeline.isRunning() ||
+        Date.now() >= deadline
+      ) {
+        return null;
+      }
+      await new Promise((resolve) => setTimeout(resolve, HLS_POLL_MS));
+    }
+    return readFile(path);
+  }
+
+  /**
+   * End an HLS session when its current pipeline fails
+   *
+   * HLS output goes to segment files rather than a response, so nothing else
+   * handles pipeline errors. Ending the session removes its segments and
+   * makes pending segment requests answer 502.
+   */
+  private watchHlsPipeline(session: StreamSession): void {
+    const pipeline = session.pipeline;
+    pipeline.getOutputStream().on('error', () => {
+      if (session.pipeline === pipeline && this.stopSession(session.id)) {
+        this.emit('session-ended', { sessionId: session.id, bookId: session.bookId });
+      }
+    });
+  }
+
+  /**
+   * Delete the segment directory of an HLS session
+   */
+  private async removeHlsDirectory(session: StreamSession): Promise<void> {
+    if (session.hlsDirectory) {
+      await rm(session.hlsDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Handle cover request
+   *
+   * Fetches the cover from Audiobookshelf with the proxy's token so Cast
+   * devices can display it without credentials.
+   */
+  private async handleCoverRequest(
+    res: ServerResponse,
+    bookId: string,
+    searchParams: URLSearchParams
+  ): Promise<void> {
+    const coverUrl = this.absClient.getCoverUrl(bookId, parseCoverOptions(searchParams));
+
+    try {
+      const fetchCover = (): Promise<Response> =>
+        fetch(coverUrl, {
+          headers: { Authorization: `Bearer ${this.absClient.getAccessToken()}` },
+        });
+      let response = await fetchCover();
+      if (response.status === 401 && this.absClient.canRefresh()) {
+        await this.absClient.refreshAccessToken();
+        response = await fetchCover();
+      }
+      if (!response.ok) {
+        res.writeHead(response.status === 404 ? 404 : 502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Cover not available' }));
+        return;
+      }
+
+      const image = Buffer.from(await response.arrayBuffer());
+      res.writeHead(200, {
+        'Content-Type': response.headers.get('content-type') ?? 'image/jpeg',
+        'Content-Length': image.length,
+        'Cache-Control': 'public, max-age=86400',
+      });
+      res.end(image);
+    } catch {
+      res.writeHead(502, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Cover not available' }));
+    }
   }
 
   /**
@@ -327,6 +1060,50 @@ export class ProxyServer extends EventEmitter {
     });
   }
 
+  /**
+   * Handle speed update request
+   */
+  private handleSpeedRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string
+  ): void {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += String(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const { speed } = JSON.parse(body) as { speed: number };
+        if (typeof speed !== 'number' || speed < MIN_SPEED || speed > MAX_SPEED) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid speed (0.5-3.0)' }));
+          return;
+        }
+
+        const session = this.sessions.get(sessionId);
+        if (session?.hlsDirectory) {
+          res.writeHead(409, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Speed cannot be changed on HLS sessions' }));
+        } else if (session && !session.variableSpeed) {
+          res.writeHead(409, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({ error: 'Speed can only change on streams requested with ?speed=' })
+          );
+        } else if (this.setSessionSpeed(sessionId, speed)) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, speed }));
+        } else {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Session not found' }));
+        }
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      }
+    });
+  }
+
   /**
    * Handle status request
    */
@@ -344,6 +1121,7 @@ export class ProxyServer extends EventEmitter {
         sessionId,
         bookId: session.bookId,
         volume: session.pipeline.getVolume(),
+        speed: session.pipeline.getSpeed(),
         position: session.pipeline.getCurrentPosition(),
         running: session.pipeline.isRunning(),
         startTime: session.startTime,
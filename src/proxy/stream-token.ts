@@ -0,0 +1,80 @@
+/**
+ * Stream tokens
+ *
+ * Short-lived, HMAC-signed tokens that authorise a Cast device to fetch one
+ * book (or podcast episode) from the audio proxy, so the Audiobookshelf API
+ * token never leaves this machine.
+ *
+ * Format: `<base64url JSON claims>.<base64url HMAC-SHA256 of the claims>`
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * What a stream token grants access to
+ */
+export interface StreamTokenClaims {
+  bookId: string;
+  /** Podcast episode, if the token is for an episode */
+  episodeId?: string;
+  /** Expiry time (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Compute the signature of encoded claims
+ */
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Create a signed stream token
+ */
+export function createStreamToken(claims: StreamTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Verify a stream token
+ *
+ * @param token - Token from the request
+ * @param secret - Signing secret
+ * @param now - Current time (ms since epoch)
+ * @returns The claims, or null if the token is malformed, forged or expired
+ */
+export function verifyStreamToken(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): StreamTokenClaims | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: Partial<StreamTokenClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Partial<StreamTokenClaims>;
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.bookId !== 'string' ||
+    typeof claims.expiresAt !== 'number' ||
+    (claims.episodeId !== undefined && typeof claims.episodeId !== 'string') ||
+    claims.expiresAt <= now
+  ) {
+    return null;
+  }
+
+  return { bookId: claims.bookId, episodeId: claims.episodeId, expiresAt: claims.expiresAt };
+}
@@ -0,0 +1,318 @@
+/**
+ * PCM Tempo Transform Stream
+ *
+ * Changes playback speed in real-time without changing pitch, using WSOLA
+ * (waveform-similarity overlap-add). Used in the audio proxy pipeline so
+ * audiobooks can be sped up or slowed down live.
+ */
+
+import { Transform, type TransformCallback } from 'stream';
+
+/**
+ * Options for TempoTransform
+ */
+export interface TempoTransformOptions {
+  /** Initial speed (0.5 - 3.0, default: 1.0) */
+  initialSpeed?: number;
+  /** Sample rate (default: 44100) */
+  sampleRate?: number;
+  /** Number of channels (default: 2) */
+  channels?: number;
+}
+
+/** Slowest supported speed */
+export const MIN_SPEED = 0.5;
+
+/** Fastest supported speed */
+export const MAX_SPEED = 3.0;
+
+/** Length of each overlap-add window in seconds */
+const WINDOW_SECONDS = 0.04;
+
+/** How far either side of the nominal position to search for the best match in seconds */
+const SEEK_SECONDS = 0.012;
+
+/** Sample stride when comparing waveforms (trades accuracy for speed) */
+const COMPARE_STRIDE = 4;
+
+/**
+ * Point where the speed changed, in frames of output and of input
+ */
+interface SpeedSegment {
+  output: number;
+  input: number;
+  speed: number;
+}
+
+/**
+ * Clamp a speed to the supported range
+ */
+function clampSpeed(value: number): number {
+  return Math.max(MIN_SPEED, Math.min(MAX_SPEED, value));
+}
+
+/**
+ * Transform stream that changes PCM audio speed while preserving pitch
+ *
+ * Expects signed 16-bit little-endian interleaved PCM audio input. At speed
+ * 1.0 audio passes through untouched until the speed is first changed.
+ */
+export class TempoTransform extends Transform {
+  private _speed: number;
+  private readonly channels: number;
+  private readonly sampleRate: number;
+  /** Window length in frames (W) */
+  private readonly windowFrames: number;
+  /** Output hop in frames (W / 2) */
+  private readonly hopFrames: number;
+  /** Search range either side of the nominal position in frames */
+  private readonly seekFrames: number;
+  /** Hann window, W frames */
+  private readonly window: Float32Array;
+  /** Falling half of the previous window, waiting to be added to the next */
+  private readonly overlap: Float32Array;
+
+  /** Buffered input, interleaved */
+  private input = new Float32Array(0);
+  private inputFrames = 0;
+  /** Bytes of an incomplete frame from the last chunk */
+  private remainder = Buffer.alloc(0);
+  /** Nominal start of the next window in buffered frames */
+  private position = 0;
+  /** Start of the previous window in buffered frames, or -1 before the first */
+  private previous = -1;
+  private stretching = false;
+
+  private inputConsumed = 0;
+  private outputProduced = 0;
+  private readonly segments: SpeedSegment[];
+
+  constructor(options: TempoTransformOptions = {}) {
+    super();
+    this._speed = clampSpeed(options.initialSpeed ?? 1.0);
+    this.channels = options.channels ?? 2;
+    this.sampleRate = options.sampleRate ?? 44100;
+    this.hopFrames = Math.max(1, Math.round((this.sampleRate * WINDOW_SECONDS) / 2));
+    this.windowFrames = this.hopFrames * 2;
+    this.seekFrames = Math.round(this.sampleRate * SEEK_SECONDS);
+
+    // Periodic Hann window: overlapping halves sum to exactly 1
+    this.window = new Float32Array(this.windowFrames);
+    for (let i = 0; i < this.windowFrames; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.windowFrames);
+    }
+    this.overlap = new Float32Array(this.hopFrames * this.channels);
+    this.segments = [{ output: 0, input: 0, speed: this._speed }];
+  }
+
+  /**
+   * Get current speed
+   */
+  get speed(): number {
+    return this._speed;
+  }
+
+  /**
+   * Set speed
+   * @param value - Speed (0.5 = half speed, 1.0 = normal, 3.0 = max)
+   */
+  setSpeed(value: number): void {
+    const speed = clampSpeed(value);
+    if (speed === this._speed) {
+      return;
+    }
+    this._speed = speed;
+    this.segments.push({ output: this.outputProduced, input: this.inputConsumed, speed });
+  }
+
+  /**
+   * Map a time in the output to the input time it was taken from
+   *
+   * Accounts for every speed change so far, so output (wall-clock) time can
+   * be turned back into book time.
+   *
+   * @param outputSeconds - Seconds of output since the start of the stream
+   * @returns Seconds of input since the start of the stream
+   */
+  toInputTime(outputSeconds: number): number {
+    const frames = outputSeconds * this.sampleRate;
+    let segment = this.segments[0];
+    for (const candidate of this.segments) {
+      if (candidate.output > frames) {
+        break;
+      }
+      segment = candidate;
+    }
+    return (segment.input + (frames - segment.output) * segment.speed) / this.sampleRate;
+  }
+
+  /**
+   * Change the tempo of PCM audio
+   */
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const frameBytes = this.channels * 2;
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const frames = Math.floor(data.length / frameBytes);
+    this.remainder = Buffer.from(data.subarray(frames * frameBytes));
+    const whole = data.subarray(0, frames * frameBytes);
+
+    // Pass through whole frames until the speed is first changed
+    if (!this.stretching && this._speed === 1.0) {
+      this.inputConsumed += frames;
+      this.outputProduced += frames;
+      callback(null, whole);
+      return;
+    }
+
+    this.stretching = true;
+    this.append(whole, frames);
+    callback(null, this.stretch());
+  }
+
+  /**
+   * Emit the tail of the last window
+   */
+  _flush(callback: TransformCallback): void {
+    if (this.stretching && this.previous >= 0) {
+      callback(null, this.toPcm(this.overlap));
+      return;
+    }
+    callback();
+  }
+
+  /**
+   * Add PCM frames to the input buffer
+   */
+  private append(pcm: Buffer, frames: number): void {
+    const needed = (this.inputFrames + frames) * this.channels;
+    if (needed > this.input.length) {
+      const grown = new Float32Array(Math.max(needed, this.input.length * 2));
+      grown.set(this.input.subarray(0, this.inputFrames * this.channels));
+      this.input = grown;
+    }
+
+    const offset = this.inputFrames * this.channels;
+    for (let i = 0; i < frames * this.channels; i++) {
+      this.input[offset + i] = pcm.readInt16LE(i * 2);
+    }
+    this.inputFrames += frames;
+  }
+
+  /**
+   * Overlap-add as many windows as the buffered input allows
+   *
+   * Each window is taken near the nominal position (advanced by hop × speed)
+   * where it best continues the previous window's waveform, then added with
+   * a hop of half a window, keeping pitch while changing duration.
+   */
+  private stretch(): Buffer {
+    const hop = this.hopFrames;
+    const channels = this.channels;
+    const chunks: Buffer[] = [];
+
+    for (;;) {
+      const nominal = Math.round(this.position);
+      const needed = Math.max(nominal + this.seekFrames + this.windowFrames, this.previous + 2 * hop);
+      if (this.inputFrames < needed) {
+        break;
+      }
+
+      const start = this.previous < 0 ? nominal : this.findBestStart(nominal);
+      const output = new Float32Array(hop * channels);
+      for (let i = 0; i < hop; i++) {
+        for (let c = 0; c < channels; c++) {
+          const rising = this.input[(start + i) * channels + c] * this.window[i];
+          output[i * channels + c] = this.overlap[i * channels + c] + rising;
+          this.overlap[i * channels + c] = this.input[(start + hop + i) * channels + c] * this.window[hop + i];
+        }
+      }
+      chunks.push(this.toPcm(output));
+
+      this.previous = start;
+      this.position += hop * this._speed;
+      this.inputConsumed += hop * this._speed;
+      this.outputProduced += hop;
+    }
+
+    this.compact();
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Find the window start near the nominal position that best continues the
+   * previous window
+   *
+   * Compares against the input that naturally followed the previous window,
+   * first coarsely and then frame by frame around the best match.
+   */
+  private findBestStart(nominal: number): number {
+    const target = this.previous + this.hopFrames;
+    const low = Math.max(0, nominal - this.seekFrames);
+    const high = nominal + this.seekFrames;
+
+    let best = Math.max(low, nominal);
+    let bestScore = -Infinity;
+    const consider = (candidate: number): void => {
+      const score = this.similarity(candidate, target);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    };
+
+    for (let candidate = low; candidate <= high; candidate += COMPARE_STRIDE) {
+      consider(candidate);
+    }
+    const coarse = best;
+    for (let candidate = coarse - COMPARE_STRIDE + 1; candidate < coarse + COMPARE_STRIDE; candidate++) {
+      if (candidate >= low && candidate <= high && candidate !== coarse) {
+        consider(candidate);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Normalised cross-correlation of two half windows (channels mixed down)
+   */
+  private similarity(candidate: number, target: number): number {
+    let correlation = 0;
+    let energy = 0;
+    for (let i = 0; i < this.hopFrames; i += COMPARE_STRIDE) {
+      let a = 0;
+      let b = 0;
+      for (let c = 0; c < this.channels; c++) {
+        a += this.input[(candidate + i) * this.channels + c];
+        b += this.input[(target + i) * this.channels + c];
+      }
+      correlation += a * b;
+      energy += a * a;
+    }
+    return correlation / Math.sqrt(energy + 1);
+  }
+
+  /**
+   * Drop input that no future window can use
+   */
+  private compact(): void {
+    const drop = Math.min(Math.floor(this.position) - this.seekFrames, this.previous + this.hopFrames);
+    if (drop <= 0) {
+      return;
+    }
+    this.input.copyWithin(0, drop * this.channels, this.inputFrames * this.channels);
+    this.inputFrames -= drop;
+    this.position -= drop;
+    this.previous -= drop;
+  }
+
+  /**
+   * Convert samples to signed 16-bit little-endian PCM
+   */
+  private toPcm(samples: Float32Array): Buffer {
+    const pcm = Buffer.alloc(samples.length * 2);
+    for (let i = 0; i < samples.length; i++) {
+      pcm.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i]))), i * 2);
+    }
+    return pcm;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Tests for the audio pipeline's multi-track decoding
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { spawn } from 'child_process';
+import { AudioPipeline, findTrackAt } from '../src/proxy/audio-pipeline.js';
+
+vi.mock('child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+interface FakeProcess extends EventEmitter {
+  stdin: PassThrough;
+  stdout: PassThrough;
+  stderr: PassThrough;
+  kill: ReturnType<typeof vi.fn>;
+}
+
+function createFakeProcess(): FakeProcess {
+  return Object.assign(new EventEmitter(), {
+    stdin: new PassThrough(),
+    stdout: new PassThrough(),
+    stderr: new PassThrough(),
+    kill: vi.fn(),
+  });
+}
+
+const TRACKS = [
+  { url: 'https://abs.example.com/track-1.mp3', startOffset: 0 },
+  { url: 'https://abs.example.com/track-2.mp3', startOffset: 60 },
+  { url: 'https://abs.example.com/track-3.mp3', startOffset: 150 },
+];
+
+describe('findTrackAt', () => {
+  it('should find the track and offset for a position', () => {
+    expect(findTrackAt(TRACKS, 0)).toEqual({ index: 0, offset: 0 });
+    expect(findTrackAt(TRACKS, 75)).toEqual({ index: 1, offset: 15 });
+    expect(findTrackAt(TRACKS, 150)).toEqual({ index: 2, offset: 0 });
+  });
+
+  it('should clamp positions before the start', () => {
+    expect(findTrackAt(TRACKS, -5)).toEqual({ index: 0, offset: 0 });
+  });
+
+  it('should map positions past the end into the last track', () => {
+    expect(findTrackAt(TRACKS, 500)).toEqual({ index: 2, offset: 350 });
+  });
+});
+
+describe('AudioPipeline', () => {
+  let processes: FakeProcess[];
+
+  beforeEach(() => {
+    processes = [];
+    vi.mocked(spawn).mockReset();
+    vi.mocked(spawn).mockImplementation(() => {
+      const process = createFakeProcess();
+      processes.push(process);
+      return process as unknown as ReturnType<typeof spawn>;
+    });
+  });
+
+  /** ffmpeg arguments of the nth spawned process (the encoder is first) */
+  function spawnArgs(index: number): string[] {
+    return vi.mocked(spawn).mock.calls[index][1] as string[];
+  }
+
+  it('should require an input', () => {
+    expect(() => new AudioPipeline({})).toThrow('AudioPipeline requires an inputUrl or tracks');
+  });
+
+  it('should start decoding in the track containing the start position', () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS, startPosition: 75 });
+    pipeline.start();
+
+    const args = spawnArgs(1);
+    expect(args.slice(args.indexOf('-ss'), args.indexOf('-i') + 2)).toEqual([
+      '-ss',
+      '15',
+      '-i',
+      'https://abs.example.com/track-2.mp3',
+    ]);
+    pipeline.stop();
+  });
+
+  it('should decode tracks one after another into a single stream', async () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS, startPosition: 60 });
+    pipeline.start();
+    const [encoder, firstDecoder] = processes;
+    const encoded: Buffer[] = [];
+    encoder.stdin.on('data', (chunk: Buffer) => {
+      encoded.push(chunk);
+    });
+    const encoderInputEnded = new Promise((resolve) => encoder.stdin.on('end', resolve));
+
+    firstDecoder.stdout.end(Buffer.from([1, 0, 2, 0]));
+    await new Promise((resolve) => firstDecoder.stdout.on('end', resolve));
+    firstDecoder.emit('close', 0);
+
+    expect(spawn).toHaveBeenCalledTimes(3);
+    expect(spawnArgs(2)).toContain('https://abs.example.com/track-3.mp3');
+    expect(spawnArgs(2)).not.toContain('-ss');
+
+    const secondDecoder = processes[2];
+    secondDecoder.stdout.end(Buffer.from([3, 0, 4, 0]));
+    await new Promise((resolve) => secondDecoder.stdout.on('end', resolve));
+    secondDecoder.emit('close', 0);
+
+    await encoderInputEnded;
+    expect(Buffer.concat(encoded)).toEqual(Buffer.from([1, 0, 2, 0, 3, 0, 4, 0]));
+    expect(spawn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should read the auth header again for each track', async () => {
+    let token = 'old-token';
+    const pipeline = new AudioPipeline({
+      tracks: TRACKS,
+      startPosition: 60,
+      getAuthHeader: () => `Bearer ${token}`,
+    });
+    pipeline.start();
+    expect(spawnArgs(1)).toContain('Authorization: Bearer old-token\r\n');
+
+    token = 'new-token';
+    const firstDecoder = processes[1];
+    firstDecoder.stdout.end();
+    await new Promise((resolve) => firstDecoder.stdout.on('end', resolve));
+    firstDecoder.emit('close', 0);
+
+    expect(spawnArgs(2)).toContain('Authorization: Bearer new-token\r\n');
+    pipeline.stop();
+  });
+
+  it('should fail the output when a track cannot be decoded', async () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS });
+    pipeline.start();
+    const failed = new Promise((resolve) => pipeline.getOutputStream().on('error', resolve));
+
+    processes[1].emit('close', 1);
+
+    await expect(failed).resolves.toEqual(new Error('Decoder exited with code 1'));
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail the output when the encoder exits with an error', async () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS });
+    pipeline.start();
+    const failed = new Promise((resolve) => pipeline.getOutputStream().on('error', resolve));
+
+    processes[0].emit('exit', 1);
+
+    await expect(failed).resolves.toEqual(new Error('Encoder exited with code 1'));
+    expect(pipeline.isRunning()).toBe(false);
+  });
+
+  it('should report positions from the start of the book', () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS, startPosition: 75 });
+    expect(pipeline.getCurrentPosition()).toBe(75);
+  });
+
+  it('should report positions in book time at other speeds', async () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS, startPosition: 60, initialSpeed: 2 });
+    pipeline.start();
+
+    // One second of 192k MP3 output covers two seconds of the book
+    processes[0].stdout.write(Buffer.alloc(24000));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(pipeline.getCurrentPosition()).toBe(62);
+    pipeline.stop();
+  });
+
+  it('should encode the selected output format', () => {
+    const pipeline = new AudioPipeline({ tracks: TRACKS, outputFormat: 'opus' });
+    pipeline.start();
+
+    expect(spawnArgs(0).slice(-7)).toEqual(['-acodec', 'libopus', '-b:a', '64k', '-f', 'ogg', 'pipe:1']);
+    pipeline.stop();
+  });
+
+  describe('HLS output', () => {
+    it('should encode AAC segments numbered from the start of the book', () => {
+      const pipeline = new AudioPipeline({
+        tracks: TRACKS,
+        startPosition: 60,
+        hls: { directory: '/tmp/abs-hls-test', segmentDuration: 6 },
+      });
+      pipeline.start();
+
+      const args = spawnArgs(0);
+      expect(args).toContain('aac');
+      expect(args.slice(args.indexOf('-output_ts_offset'), args.indexOf('-output_ts_offset') + 2)).toEqual([
+        '-output_ts_offset',
+        '60',
+      ]);
+      expect(args.slice(args.indexOf('-start_number'), args.indexOf('-start_number') + 2)).toEqual([
+        '-start_number',
+        '10',
+      ]);
+      expect(args).toContain('/tmp/abs-hls-test/segment-%d.ts');
+      pipeline.stop();
+    });
+
+    it('should stop feeding the encoder at the encode limit until it is raised', async () => {
+      // 20 bytes of PCM per second
+      const pipeline = new AudioPipeline({
+        tracks: TRACKS,
+        sampleRate: 10,
+        channels: 1,
+        hls: { directory: '/tmp/abs-hls-test' },
+      });
+      pipeline.start();
+      pipeline.setEncodeLimit(1);
+      const [encoder, decoder] = processes;
+      let encoded = 0;
+      encoder.stdin.on('data', (chunk: Buffer) => {
+        encoded += chunk.length;
+      });
+
+      decoder.stdout.write(Buffer.alloc(20));
+      await new Promise((resolve) => setImmediate(resolve));
+      decoder.stdout.write(Buffer.alloc(20));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(encoded).toBe(20);
+      expect(pipeline.getCurrentPosition()).toBe(1);
+
+      pipeline.setEncodeLimit(10);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(encoded).toBe(40);
+      pipeline.stop();
+    });
+  });
+});
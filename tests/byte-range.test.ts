@@ -0,0 +1,40 @@
+/**
+ * Tests for HTTP Range header parsing
+ */
+import { describe, it, expect } from 'vitest';
+import { parseByteRange } from '../src/proxy/byte-range.js';
+
+describe('parseByteRange', () => {
+  it('should parse a closed range', () => {
+    expect(parseByteRange('bytes=0-499', 1000)).toEqual({ start: 0, end: 499 });
+  });
+
+  it('should parse an open-ended range', () => {
+    expect(parseByteRange('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('should parse a suffix range', () => {
+    expect(parseByteRange('bytes=-200', 1000)).toEqual({ start: 800, end: 999 });
+    expect(parseByteRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('should clamp the end to the resource size', () => {
+    expect(parseByteRange('bytes=900-2000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('should use the first of several ranges', () => {
+    expect(parseByteRange('bytes=0-9, 20-29', 1000)).toEqual({ start: 0, end: 9 });
+  });
+
+  it('should reject unsatisfiable ranges', () => {
+    expect(parseByteRange('bytes=1000-', 1000)).toBeNull();
+    expect(parseByteRange('bytes=500-100', 1000)).toBeNull();
+    expect(parseByteRange('bytes=-0', 1000)).toBeNull();
+  });
+
+  it('should reject malformed headers', () => {
+    expect(parseByteRange('bytes=-', 1000)).toBeNull();
+    expect(parseByteRange('items=0-9', 1000)).toBeNull();
+    expect(parseByteRange('bytes=a-b', 1000)).toBeNull();
+  });
+});
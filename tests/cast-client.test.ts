@@ -208,6 +208,30 @@ describe('CastClient', () => {
       );
     });
 
+    it('should show the narrator in the subtitle', async () => {
+      const loadPromise = castClient.loadMedia({
+        url: 'https://example.com/audio.mp3',
+        contentType: 'audio/mpeg',
+        title: 'The Hobbit',
+        author: 'J.R.R. Tolkien',
+        narrator: 'Andy Serkis',
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      await loadPromise;
+
+      expect(mockClientInstance?.player?.load).toHaveBeenCalledWith(
+        expect.objectContaining({
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+          metadata: expect.objectContaining({
+            subtitle: 'J.R.R. Tolkien · Narrated by Andy Serkis',
+            artist: 'J.R.R. Tolkien',
+          }),
+        }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
     it('should resume from position when specified', async () => {
       const options: MediaLoadOptions = {
         url: 'https://example.com/audio.mp3',
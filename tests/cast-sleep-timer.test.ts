@@ -202,6 +202,22 @@ describe('CastSleepTimer', () => {
       await promise;
     });
 
+    it('should pause without a fade when there is no volume transform', async () => {
+      timer = new CastSleepTimer(
+        mockCastClient as unknown as ConstructorParameters<typeof CastSleepTimer>[0],
+        null,
+        { durationMs: 60000, latencyCompensationMs: 0, onComplete }
+      );
+      const promise = timer.start();
+
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(fadeOut).not.toHaveBeenCalled();
+      expect(mockCastClient.pause).toHaveBeenCalled();
+      expect(onComplete).toHaveBeenCalled();
+      await promise;
+    });
+
     it('should pause Cast after fade completes', async () => {
       timer = createTimer();
       const promise = timer.start();
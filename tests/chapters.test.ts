@@ -0,0 +1,41 @@
+/**
+ * Tests for chapter helpers
+ */
+import { describe, it, expect } from 'vitest';
+import { findChapterAt } from '../src/lib/chapters.js';
+import type { Chapter } from '../src/lib/types.js';
+
+describe('findChapterAt', () => {
+  const chapters: Chapter[] = [
+    { id: 0, start: 0, end: 600, title: 'Opening Credits' },
+    { id: 1, start: 600, end: 1800, title: 'Chapter One' },
+    { id: 2, start: 1800, end: 3600, title: 'Chapter Two' },
+  ];
+
+  it('should return null for a book without chapters', () => {
+    expect(findChapterAt([], 100)).toBeNull();
+  });
+
+  it('should find the chapter containing the position', () => {
+    const result = findChapterAt(chapters, 900);
+    expect(result?.number).toBe(2);
+    expect(result?.chapter.title).toBe('Chapter One');
+  });
+
+  it('should treat a chapter start as inside that chapter', () => {
+    expect(findChapterAt(chapters, 1800)?.number).toBe(3);
+  });
+
+  it('should map positions past the end to the last chapter', () => {
+    expect(findChapterAt(chapters, 9999)?.number).toBe(3);
+  });
+
+  it('should map negative positions to the first chapter', () => {
+    expect(findChapterAt(chapters, -5)?.number).toBe(1);
+  });
+
+  it('should handle unsorted chapters', () => {
+    const unsorted = [chapters[2], chapters[0], chapters[1]];
+    expect(findChapterAt(unsorted, 700)?.chapter.title).toBe('Chapter One');
+  });
+});
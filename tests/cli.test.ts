@@ -72,6 +72,50 @@ describe('CLI Parser', () => {
       expect(result.args.library).toBe('lib-123');
     });
 
+    it('should parse listing options', () => {
+      const result = parseCLI([
+        'books',
+        '--sort',
+        'added',
+        '--desc',
+        '--filter',
+        'author:Brandon Sanderson',
+        '--limit',
+        '20',
+        '--page',
+        '2',
+      ]);
+      expect(result.error).toBeUndefined();
+      expect(result.args.sort).toBe('added');
+      expect(result.flags.desc).toBe(true);
+      expect(result.args.filter).toBe('author:Brandon Sanderson');
+      expect(result.args.limit).toBe(20);
+      expect(result.args.page).toBe(2);
+    });
+
+    it('should reject an unknown sort field', () => {
+      const result = parseCLI(['books', '--sort', 'size']);
+      expect(result.error).toContain('--sort');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should reject inherited object keys as sort fields', () => {
+      const result = parseCLI(['books', '--sort', 'constructor']);
+      expect(result.error).toContain('--sort');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should reject an invalid filter', () => {
+      const result = parseCLI(['books', '--filter', 'publisher:Tor']);
+      expect(result.error).toContain('--filter');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should reject a non-positive limit or page', () => {
+      expect(parseCLI(['books', '--limit', '0']).exitCode).toBe(2);
+      expect(parseCLI(['books', '--page', 'x']).exitCode).toBe(2);
+    });
+
     it('should parse "books -l <id>"', () => {
       const result = parseCLI(['books', '-l', 'lib-123']);
       expect(result.command).toBe('books');
@@ -120,11 +164,268 @@ describe('CLI Parser', () => {
       expect(result.args.device).toBe('Kitchen');
     });
 
+    it('should join a multi-word title', () => {
+      const result = parseCLI(['play', 'project', 'hail', 'mary', '-d', 'Kitchen']);
+      expect(result.args.id).toBe('project hail mary');
+      expect(result.args.device).toBe('Kitchen');
+    });
+
+    it('should parse --first', () => {
+      const result = parseCLI(['play', 'dune', '--first']);
+      expect(result.args.id).toBe('dune');
+      expect(result.flags.first).toBe(true);
+    });
+
+    it('should parse --episode', () => {
+      expect(parseCLI(['play', 'the', 'daily', '--episode', 'latest']).args).toEqual(
+        expect.objectContaining({ id: 'the daily', episode: 'latest' })
+      );
+      expect(parseCLI(['play', 'pod-1', '--episode', '3']).args.episode).toBe('3');
+    });
+
+    it('should reject an invalid --episode', () => {
+      const result = parseCLI(['play', 'pod-1', '--episode', 'newest']);
+      expect(result.error).toContain('--episode');
+      expect(result.exitCode).toBe(2);
+    });
+
     it('should error without id', () => {
       const result = parseCLI(['play']);
       expect(result.error).toBeDefined();
       expect(result.exitCode).toBe(2);
     });
+
+    it('should parse --series and --next without a title', () => {
+      const result = parseCLI(['play', '--series', 'The Expanse', '--next']);
+      expect(result.error).toBeUndefined();
+      expect(result.args.series).toBe('The Expanse');
+      expect(result.args.id).toBeUndefined();
+      expect(result.flags.next).toBe(true);
+    });
+
+    it('should reject --series with a title or --episode', () => {
+      expect(parseCLI(['play', 'dune', '--series', 'Dune']).exitCode).toBe(2);
+      expect(parseCLI(['play', '--series', 'Dune', '--episode', '1']).exitCode).toBe(2);
+    });
+
+    it('should reject --next without --series', () => {
+      const result = parseCLI(['play', 'dune', '--next']);
+      expect(result.error).toContain('--series');
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('profile command', () => {
+    it('should parse "profile list"', () => {
+      const result = parseCLI(['profile', 'list']);
+      expect(result.command).toBe('profile');
+      expect(result.subcommand).toBe('list');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse "profile use <name>" and "profile remove <name>"', () => {
+      expect(parseCLI(['profile', 'use', 'alice']).args.name).toBe('alice');
+      expect(parseCLI(['profile', 'remove', 'bob']).subcommand).toBe('remove');
+    });
+
+    it('should parse "profile add" with a token', () => {
+      const result = parseCLI([
+        'profile',
+        'add',
+        'bob',
+        '--server',
+        'https://abs.example.com',
+        '--token',
+        'abc',
+      ]);
+      expect(result.error).toBeUndefined();
+      expect(result.args.name).toBe('bob');
+      expect(result.args.token).toBe('abc');
+    });
+
+    it('should require --user or --token for "profile add"', () => {
+      const result = parseCLI(['profile', 'add', 'bob']);
+      expect(result.error).toContain('--user');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should require a profile name', () => {
+      expect(parseCLI(['profile', 'use']).exitCode).toBe(2);
+    });
+
+    it('should reject unknown subcommands', () => {
+      expect(parseCLI(['profile', 'rename']).exitCode).toBe(2);
+    });
+  });
+
+  describe('--profile flag', () => {
+    it('should set the profile for any command', () => {
+      expect(parseCLI(['--profile', 'bob', 'status']).config.profile).toBe('bob');
+      expect(parseCLI(['library', '-p', 'alice']).config.profile).toBe('alice');
+    });
+
+    it('should default to ABS_PROFILE', () => {
+      process.env.ABS_PROFILE = 'carol';
+      expect(parseCLI(['status']).config.profile).toBe('carol');
+    });
+  });
+
+  describe('login command', () => {
+    it('should parse "login --server <url> --user <name>"', () => {
+      const result = parseCLI(['login', '--server', 'https://abs.example.com', '--user', 'alice']);
+      expect(result.command).toBe('login');
+      expect(result.error).toBeUndefined();
+      expect(result.args.server).toBe('https://abs.example.com');
+      expect(result.args.user).toBe('alice');
+    });
+
+    it('should error without --user', () => {
+      const result = parseCLI(['login', '--server', 'https://abs.example.com']);
+      expect(result.error).toContain('--user');
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('episodes command', () => {
+    it('should parse "episodes <podcast>"', () => {
+      const result = parseCLI(['episodes', 'The', 'Daily']);
+      expect(result.command).toBe('episodes');
+      expect(result.args.id).toBe('The Daily');
+    });
+
+    it('should error without a podcast', () => {
+      expect(parseCLI(['episodes']).exitCode).toBe(2);
+    });
+  });
+
+  describe('collection and playlist commands', () => {
+    it('should parse "collection list"', () => {
+      const result = parseCLI(['collection', 'list']);
+      expect(result.command).toBe('collection');
+      expect(result.subcommand).toBe('list');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse a name and a multi-word book title', () => {
+      const result = parseCLI(['collection', 'add', 'Sci-Fi Classics', 'the', 'left', 'hand']);
+      expect(result.subcommand).toBe('add');
+      expect(result.args.name).toBe('Sci-Fi Classics');
+      expect(result.args.id).toBe('the left hand');
+    });
+
+    it('should parse "playlist add" with --episode', () => {
+      const result = parseCLI(['playlist', 'add', 'Commute', 'The Daily', '--episode', 'latest']);
+      expect(result.error).toBeUndefined();
+      expect(result.args).toEqual(
+        expect.objectContaining({ name: 'Commute', id: 'The Daily', episode: 'latest' })
+      );
+    });
+
+    it('should require a name and a book', () => {
+      expect(parseCLI(['playlist', 'create']).error).toContain('playlist name');
+      expect(parseCLI(['collection', 'remove', 'Favourites']).error).toContain('book');
+    });
+
+    it('should reject --episode outside "playlist add"', () => {
+      expect(parseCLI(['collection', 'add', 'Favs', 'pod', '--episode', '1']).exitCode).toBe(2);
+      expect(parseCLI(['playlist', 'add', 'Commute', 'pod', '--episode', 'x']).exitCode).toBe(2);
+    });
+
+    it('should reject unknown subcommands', () => {
+      const result = parseCLI(['playlist', 'rename']);
+      expect(result.error).toBe('Unknown playlist subcommand: rename');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should parse "play --playlist"', () => {
+      const result = parseCLI(['play', '--playlist', 'Commute']);
+      expect(result.error).toBeUndefined();
+      expect(result.args.playlist).toBe('Commute');
+      expect(parseCLI(['play', 'dune', '--playlist', 'Commute']).exitCode).toBe(2);
+    });
+  });
+
+  describe('finish, unfinish and progress commands', () => {
+    it('should parse "finish" with a title or several ids', () => {
+      expect(parseCLI(['finish', 'project', 'hail', 'mary']).args.id).toBe('project hail mary');
+      expect(parseCLI(['unfinish', 'li_abc', 'li_def']).args.id).toBe('li_abc li_def');
+    });
+
+    it('should require a book for finish', () => {
+      expect(parseCLI(['finish']).error).toBe('finish requires a book title or id argument');
+    });
+
+    it('should parse "progress reset <book>"', () => {
+      const result = parseCLI(['progress', 'reset', 'dune']);
+      expect(result.subcommand).toBe('reset');
+      expect(result.args.id).toBe('dune');
+    });
+
+    it('should reject other progress subcommands', () => {
+      expect(parseCLI(['progress', 'show', 'dune']).exitCode).toBe(2);
+      expect(parseCLI(['progress', 'reset']).exitCode).toBe(2);
+    });
+  });
+
+  describe('bookmark command', () => {
+    it('should parse "bookmark add" with --title', () => {
+      const result = parseCLI(['bookmark', 'add', '--title', 'Big reveal']);
+      expect(result.subcommand).toBe('add');
+      expect(result.args.title).toBe('Big reveal');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse "bookmark goto <n>" and "bookmark rm <n>"', () => {
+      expect(parseCLI(['bookmark', 'goto', '2']).args.bookmark).toBe(2);
+      expect(parseCLI(['bookmark', 'rm', '1']).args.bookmark).toBe(1);
+    });
+
+    it('should require a bookmark number', () => {
+      const result = parseCLI(['bookmark', 'goto']);
+      expect(result.error).toBe('bookmark goto requires a bookmark number');
+      expect(result.exitCode).toBe(2);
+      expect(parseCLI(['bookmark', 'rm', '0']).exitCode).toBe(2);
+    });
+
+    it('should reject unknown subcommands', () => {
+      expect(parseCLI(['bookmark', 'delete', '1']).exitCode).toBe(2);
+    });
+  });
+
+  describe('stats and history commands', () => {
+    it('should default the stats period to a week', () => {
+      const result = parseCLI(['stats']);
+      expect(result.command).toBe('stats');
+      expect(result.args.period).toBe('week');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse --period', () => {
+      expect(parseCLI(['stats', '--period', 'year']).args.period).toBe('year');
+    });
+
+    it('should reject unknown periods', () => {
+      const result = parseCLI(['stats', '--period', 'decade']);
+      expect(result.error).toBe('--period must be one of: week, month, year');
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should parse history paging', () => {
+      const result = parseCLI(['history', '--limit', '20', '--page', '2']);
+      expect(result.command).toBe('history');
+      expect(result.args.limit).toBe(20);
+      expect(result.args.page).toBe(2);
+      expect(parseCLI(['history', '--limit', '0']).exitCode).toBe(2);
+    });
+  });
+
+  describe('series command', () => {
+    it('should parse "series" with --library', () => {
+      const result = parseCLI(['series', '--library', 'lib-1']);
+      expect(result.command).toBe('series');
+      expect(result.args.library).toBe('lib-1');
+      expect(result.error).toBeUndefined();
+    });
   });
 
   describe('resume command', () => {
@@ -218,25 +519,6 @@ describe('CLI Parser', () => {
       expect(result.error).toBeDefined();
       expect(result.exitCode).toBe(2);
     });
-
-    it('should parse "sleep <minutes> --fade <seconds>"', () => {
-      const result = parseCLI(['sleep', '30', '--fade', '45']);
-      expect(result.command).toBe('sleep');
-      expect(result.args.minutes).toBe(30);
-      expect(result.args.fade).toBe(45);
-    });
-
-    it('should parse "sleep <minutes> -f <seconds>"', () => {
-      const result = parseCLI(['sleep', '30', '-f', '60']);
-      expect(result.command).toBe('sleep');
-      expect(result.args.minutes).toBe(30);
-      expect(result.args.fade).toBe(60);
-    });
-
-    it('should use default fade of 30 seconds when not specified', () => {
-      const result = parseCLI(['sleep', '30']);
-      expect(result.args.fade).toBe(30);
-    });
   });
 
   describe('status command', () => {
@@ -295,6 +577,152 @@ describe('CLI Parser', () => {
     });
   });
 
+  describe('daemon command', () => {
+    it('should parse "daemon run"', () => {
+      const result = parseCLI(['daemon', 'run']);
+      expect(result.command).toBe('daemon');
+      expect(result.subcommand).toBe('run');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse "daemon start"', () => {
+      const result = parseCLI(['daemon', 'start']);
+      expect(result.command).toBe('daemon');
+      expect(result.subcommand).toBe('start');
+    });
+
+    it('should parse "daemon stop"', () => {
+      const result = parseCLI(['daemon', 'stop']);
+      expect(result.command).toBe('daemon');
+      expect(result.subcommand).toBe('stop');
+    });
+
+    it('should parse "daemon status"', () => {
+      const result = parseCLI(['daemon', 'status']);
+      expect(result.command).toBe('daemon');
+      expect(result.subcommand).toBe('status');
+    });
+
+    it('should error on "daemon" without subcommand', () => {
+      const result = parseCLI(['daemon']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should error on "daemon invalid"', () => {
+      const result = parseCLI(['daemon', 'invalid']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('seek command', () => {
+    it('should parse "seek +30s"', () => {
+      const result = parseCLI(['seek', '+30s']);
+      expect(result.command).toBe('seek');
+      expect(result.args.position).toBe('+30s');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should treat "-1m" as a position, not a flag', () => {
+      const result = parseCLI(['seek', '-1m']);
+      expect(result.args.position).toBe('-1m');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse "seek 1:23:45"', () => {
+      const result = parseCLI(['seek', '1:23:45']);
+      expect(result.args.position).toBe('1:23:45');
+    });
+
+    it('should error on invalid position', () => {
+      const result = parseCLI(['seek', 'soon']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should error without a position', () => {
+      const result = parseCLI(['seek']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('speed command', () => {
+    it('should parse "speed 1.5"', () => {
+      const result = parseCLI(['speed', '1.5']);
+      expect(result.command).toBe('speed');
+      expect(result.args.speed).toBe(1.5);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should accept an "x" suffix', () => {
+      expect(parseCLI(['speed', '1.25x']).args.speed).toBe(1.25);
+    });
+
+    it('should show the current speed without a value', () => {
+      const result = parseCLI(['speed']);
+      expect(result.args.speed).toBeUndefined();
+      expect(result.error).toBeUndefined();
+    });
+
+    it.each(['0.25', '4', 'fast'])('should error on speed %s', (speed) => {
+      const result = parseCLI(['speed', speed]);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('chapter command', () => {
+    it('should parse "chapter list"', () => {
+      const result = parseCLI(['chapter', 'list']);
+      expect(result.command).toBe('chapter');
+      expect(result.subcommand).toBe('list');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should parse "chapter list --json"', () => {
+      const result = parseCLI(['chapter', 'list', '--json']);
+      expect(result.subcommand).toBe('list');
+      expect(result.flags.json).toBe(true);
+    });
+
+    it('should parse "chapter next" and "chapter prev"', () => {
+      expect(parseCLI(['chapter', 'next']).subcommand).toBe('next');
+      expect(parseCLI(['chapter', 'prev']).subcommand).toBe('prev');
+    });
+
+    it('should parse "chapter goto <n>"', () => {
+      const result = parseCLI(['chapter', 'goto', '12']);
+      expect(result.subcommand).toBe('goto');
+      expect(result.args.chapter).toBe(12);
+    });
+
+    it('should error on "chapter goto" without a number', () => {
+      const result = parseCLI(['chapter', 'goto']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should error on "chapter goto 0"', () => {
+      const result = parseCLI(['chapter', 'goto', '0']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should error on "chapter" without subcommand', () => {
+      const result = parseCLI(['chapter']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+
+    it('should error on unknown chapter subcommand', () => {
+      const result = parseCLI(['chapter', 'skip']);
+      expect(result.error).toBeDefined();
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
   describe('unknown command', () => {
     it('should error on unknown command', () => {
       const result = parseCLI(['foobar']);
@@ -2,9 +2,20 @@
  * Tests for Audiobookshelf API client
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { AudiobookshelfClient } from '../src/lib/client.js';
+import {
+  AudiobookshelfApiError,
+  AudiobookshelfClient,
+  AudiobookshelfTimeoutError,
+} from '../src/lib/client.js';
 import type { AudiobookshelfConfig } from '../src/lib/config.js';
-import type { Library, Book, Progress, PlaybackSession } from '../src/lib/types.js';
+import type {
+  Library,
+  Book,
+  BookDetails,
+  Progress,
+  PlaybackSession,
+  SearchResults,
+} from '../src/lib/types.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn<typeof fetch>();
@@ -15,6 +26,7 @@ describe('AudiobookshelfClient', () => {
     url: 'https://abs.example.com',
     apiKey: 'test-api-key',
     timeout: 5000,
+    retries: 0,
   };
 
   beforeEach(() => {
@@ -27,6 +39,210 @@ describe('AudiobookshelfClient', () => {
     vi.unstubAllGlobals();
   });
 
+  describe('request handling', () => {
+    let retryingClient: AudiobookshelfClient;
+
+    function librariesResponse(): Response {
+      return { ok: true, json: () => Promise.resolve({ libraries: [] }) } as Response;
+    }
+
+    function errorResponse(status: number, statusText: string, retryAfter?: string): Response {
+      return {
+        ok: false,
+        status,
+        statusText,
+        headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+        text: () => Promise.resolve('{"error":"upstream"}'),
+      } as Response;
+    }
+
+    beforeEach(() => {
+      retryingClient = new AudiobookshelfClient({ ...config, retries: 2, retryDelayMs: 0 });
+    });
+
+    it('should pass a timeout signal to fetch', async () => {
+      mockFetch.mockResolvedValueOnce(librariesResponse());
+
+      await client.getLibraries();
+
+      const init = mockFetch.mock.calls[0][1];
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should throw AudiobookshelfTimeoutError when the request times out', async () => {
+      mockFetch.mockRejectedValueOnce(new DOMException('timed out', 'TimeoutError'));
+
+      const error: unknown = await client.getLibraries().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AudiobookshelfTimeoutError);
+      expect((error as AudiobookshelfTimeoutError).message).toBe(
+        'Request timed out after 5000ms (GET /api/libraries)'
+      );
+    });
+
+    it('should retry GET requests on 5xx and network errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503, 'Service Unavailable'))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(librariesResponse());
+
+      await expect(retryingClient.getLibraries()).resolves.toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry GET requests on 429', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, 'Too Many Requests', '0'))
+        .mockResolvedValueOnce(librariesResponse());
+
+      await expect(retryingClient.getLibraries()).resolves.toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      mockFetch.mockResolvedValue(errorResponse(500, 'Internal Server Error'));
+
+      await expect(retryingClient.getLibraries()).rejects.toThrow(AudiobookshelfApiError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(401, 'Unauthorized'));
+
+      await expect(retryingClient.getLibraries()).rejects.toThrow('API error: 401');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-GET requests', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(502, 'Bad Gateway'));
+
+      await expect(retryingClient.startSession('book-1')).rejects.toThrow('API error: 502');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include method, endpoint and body in API errors', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(500, 'Internal Server Error'));
+
+      const error = (await client.getLibraries().catch((e: unknown) => e)) as AudiobookshelfApiError;
+
+      expect(error.status).toBe(500);
+      expect(error.method).toBe('GET');
+      expect(error.endpoint).toBe('/api/libraries');
+      expect(error.body).toBe('{"error":"upstream"}');
+      expect(error.message).toBe(
+        'API error: 500 Internal Server Error (GET /api/libraries): {"error":"upstream"}'
+      );
+    });
+  });
+
+  describe('login', () => {
+    it('should post credentials without a bearer token and return tokens', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            user: {
+              id: 'user-1',
+              username: 'alice',
+              token: 'legacy-token',
+              accessToken: 'access-1',
+              refreshToken: 'refresh-1',
+            },
+          }),
+      } as Response);
+
+      const result = await client.login('alice', 'hunter2');
+
+      expect(result).toEqual({
+        userId: 'user-1',
+        username: 'alice',
+        token: 'access-1',
+        refreshToken: 'refresh-1',
+      });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://abs.example.com/login');
+      expect(init?.method).toBe('POST');
+      expect(init?.body).toBe(JSON.stringify({ username: 'alice', password: 'hunter2' }));
+      expect(init?.headers).not.toHaveProperty('Authorization');
+      expect(init?.headers).toHaveProperty('x-return-tokens', 'true');
+    });
+
+    it('should fall back to the legacy token on older servers', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ user: { id: 'user-1', username: 'alice', token: 'legacy' } }),
+      } as Response);
+
+      const result = await client.login('alice', 'hunter2');
+
+      expect(result.token).toBe('legacy');
+      expect(result.refreshToken).toBeUndefined();
+    });
+
+    it('should throw on invalid credentials', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+      } as Response);
+
+      await expect(client.login('alice', 'wrong')).rejects.toThrow('API error: 401');
+    });
+  });
+
+  describe('token refresh', () => {
+    const unauthorized = { ok: false, status: 401, statusText: 'Unauthorized' } as Response;
+
+    function librariesResponse(): Response {
+      return { ok: true, json: () => Promise.resolve({ libraries: [] }) } as Response;
+    }
+
+    it('should refresh on 401 and retry with the new token', async () => {
+      const onTokenRefresh = vi.fn();
+      const refreshingClient = new AudiobookshelfClient({
+        ...config,
+        refreshToken: 'refresh-1',
+        onTokenRefresh,
+      });
+      mockFetch
+        .mockResolvedValueOnce(unauthorized)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ user: { accessToken: 'access-2', refreshToken: 'refresh-2' } }),
+        } as Response)
+        .mockResolvedValueOnce(librariesResponse());
+
+      await expect(refreshingClient.getLibraries()).resolves.toEqual([]);
+
+      const [refreshUrl, refreshInit] = mockFetch.mock.calls[1];
+      expect(refreshUrl).toBe('https://abs.example.com/auth/refresh');
+      expect(refreshInit?.headers).toHaveProperty('x-refresh-token', 'refresh-1');
+      expect(mockFetch.mock.calls[2][1]?.headers).toHaveProperty(
+        'Authorization',
+        'Bearer access-2'
+      );
+      expect(onTokenRefresh).toHaveBeenCalledWith({ token: 'access-2', refreshToken: 'refresh-2' });
+    });
+
+    it('should throw the original 401 when the refresh fails', async () => {
+      const refreshingClient = new AudiobookshelfClient({ ...config, refreshToken: 'expired' });
+      mockFetch.mockResolvedValueOnce(unauthorized).mockResolvedValueOnce(unauthorized);
+
+      await expect(refreshingClient.getLibraries()).rejects.toThrow(
+        'API error: 401 Unauthorized (GET /api/libraries)'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not refresh without a refresh token', async () => {
+      mockFetch.mockResolvedValueOnce(unauthorized);
+
+      await expect(client.getLibraries()).rejects.toThrow(AudiobookshelfApiError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getLibraries', () => {
     it('should return a list of libraries', async () => {
       const mockLibraries: Library[] = [
@@ -140,77 +356,692 @@ describe('AudiobookshelfClient', () => {
     });
   });
 
-  describe('search', () => {
-    it('should search across libraries', async () => {
-      const mockBooks: Book[] = [
+  describe('iterateItems', () => {
+    function page(ids: string[], total: number): Response {
+      return {
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            results: ids.map((id) => ({
+              id,
+              libraryId: 'lib-1',
+              media: { metadata: { title: `Book ${id}` }, duration: 3600 },
+            })),
+            total,
+          }),
+      } as Response;
+    }
+
+    it('should fetch pages until all items are returned', async () => {
+      mockFetch.mockResolvedValueOnce(page(['1', '2'], 3)).mockResolvedValueOnce(page(['3'], 3));
+
+      const ids: string[] = [];
+      for await (const book of client.iterateItems('lib-1', { pageSize: 2 })) {
+        ids.push(book.id);
+      }
+
+      expect(ids).toEqual(['1', '2', '3']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://abs.example.com/api/libraries/lib-1/items?limit=2&page=0',
+        expect.anything()
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://abs.example.com/api/libraries/lib-1/items?limit=2&page=1',
+        expect.anything()
+      );
+    });
+
+    it('should stop fetching when the consumer stops', async () => {
+      mockFetch.mockResolvedValueOnce(page(['1', '2'], 10));
+
+      for await (const book of client.iterateItems('lib-1', { pageSize: 2 })) {
+        expect(book.id).toBe('1');
+        break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send sort, desc and encoded filter', async () => {
+      mockFetch.mockResolvedValueOnce(page([], 0));
+
+      const result = await client.getItemsPage('lib-1', 2, {
+        sort: 'addedAt',
+        desc: true,
+        filter: { group: 'genres', value: 'Sci-Fi' },
+        pageSize: 25,
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.searchParams.get('limit')).toBe('25');
+      expect(url.searchParams.get('page')).toBe('2');
+      expect(url.searchParams.get('sort')).toBe('addedAt');
+      expect(url.searchParams.get('desc')).toBe('1');
+      expect(url.searchParams.get('filter')).toBe(`genres.${btoa('Sci-Fi')}`);
+      expect(result).toEqual({ books: [], total: 0, page: 2, pageSize: 25 });
+    });
+  });
+
+  describe('series', () => {
+    function seriesBook(id: string, sequence?: string): Record<string, unknown> {
+      return {
+        id,
+        libraryId: 'lib-1',
+        media: {
+          metadata: { title: `Book ${id}`, series: { id: 'ser-1', name: 'Saga', sequence } },
+          duration: 3600,
+        },
+      };
+    }
+
+    it('should list series with books in sequence order', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            results: [
+              {
+                id: 'ser-1',
+                name: 'Saga',
+                books: [
+                  { ...seriesBook('b10'), sequence: '10' },
+                  { ...seriesBook('b2'), sequence: '2' },
+                  { ...seriesBook('b1.5'), sequence: '1.5' },
+                ],
+              },
+            ],
+            total: 1,
+          }),
+      } as Response);
+
+      const result = await client.getSeries('lib-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/libraries/lib-1/series?limit=100&page=0',
+        expect.anything()
+      );
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ id: 'ser-1', libraryId: 'lib-1', name: 'Saga' });
+      expect(result[0].books.map((book) => book.sequence)).toEqual(['1.5', '2', '10']);
+    });
+
+    it('should list books of one series through the library items filter', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 'ser-1', name: 'Saga', libraryId: 'lib-1' }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              results: [seriesBook('b-none'), seriesBook('b3', '3'), seriesBook('b1', '1')],
+              total: 3,
+            }),
+        } as Response);
+
+      const books = await client.getSeriesBooks('ser-1');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://abs.example.com/api/series/ser-1',
+        expect.anything()
+      );
+      const url = new URL(mockFetch.mock.calls[1][0] as string);
+      expect(url.pathname).toBe('/api/libraries/lib-1/items');
+      expect(url.searchParams.get('filter')).toBe(`series.${btoa('ser-1')}`);
+      expect(books.map((book) => book.id)).toEqual(['b1', 'b3', 'b-none']);
+      expect(books[0]).toMatchObject({ title: 'Book b1', sequence: '1' });
+      expect(books[2].sequence).toBeUndefined();
+    });
+
+    it('should pick the sequence of the requested series when a book is in several', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 'ser-2', name: 'Omnibus', libraryId: 'lib-1' }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              results: [
+                {
+                  id: 'b1',
+                  libraryId: 'lib-1',
+                  media: {
+                    metadata: {
+                      title: 'Book',
+                      series: [
+                        { id: 'ser-1', name: 'Saga', sequence: '4' },
+                        { id: 'ser-2', name: 'Omnibus', sequence: '2' },
+                      ],
+                    },
+                  },
+                },
+              ],
+              total: 1,
+            }),
+        } as Response);
+
+      const books = await client.getSeriesBooks('ser-2');
+
+      expect(books[0].sequence).toBe('2');
+    });
+  });
+
+  describe('collections', () => {
+    const collectionResponse = {
+      id: 'col-1',
+      libraryId: 'lib-1',
+      name: 'Favourites',
+      description: null,
+      books: [
         {
           id: 'book-1',
           libraryId: 'lib-1',
-          title: 'Harry Potter',
-          author: 'J.K. Rowling',
-          duration: 28800,
+          media: { metadata: { title: 'Dune', authorName: 'Frank Herbert' }, duration: 3600 },
         },
-      ];
+      ],
+    };
 
-      // First call: getLibraries
+    it('should list collections with their books', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: () =>
-          Promise.resolve({
-            libraries: [{ id: 'lib-1', name: 'Audiobooks', folders: ['/books'], icon: 'book', mediaType: 'book' }],
+        json: () => Promise.resolve({ collections: [collectionResponse] }),
+      } as Response);
+
+      const result = await client.getCollections();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/collections',
+        expect.anything()
+      );
+      expect(result).toEqual([
+        {
+          id: 'col-1',
+          libraryId: 'lib-1',
+          name: 'Favourites',
+          description: undefined,
+          books: [
+            {
+              id: 'book-1',
+              libraryId: 'lib-1',
+              title: 'Dune',
+              author: 'Frank Herbert',
+              narrator: undefined,
+              duration: 3600,
+              coverPath: undefined,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should create a collection', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ ...collectionResponse, books: [] }),
+      } as Response);
+
+      const result = await client.createCollection('lib-1', 'Favourites');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/collections',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ libraryId: 'lib-1', name: 'Favourites', books: [] }),
+        })
+      );
+      expect(result.id).toBe('col-1');
+    });
+
+    it('should add a book to a collection', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(collectionResponse),
+      } as Response);
+
+      const result = await client.addToCollection('col-1', 'book-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/collections/col-1/book',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ id: 'book-1' }) })
+      );
+      expect(result.books).toHaveLength(1);
+    });
+
+    it('should remove a book and delete a collection answered with a plain OK', async () => {
+      const json = vi.fn().mockRejectedValue(new SyntaxError('Unexpected token O'));
+      mockFetch.mockResolvedValue({ ok: true, json } as unknown as Response);
+
+      await client.removeFromCollection('col-1', 'book-1');
+      await client.deleteCollection('col-1');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://abs.example.com/api/collections/col-1/book/book-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://abs.example.com/api/collections/col-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('playlists', () => {
+    const playlistResponse = {
+      id: 'pl-1',
+      libraryId: 'lib-1',
+      name: 'Commute',
+      items: [
+        {
+          libraryItemId: 'book-1',
+          episodeId: null,
+          libraryItem: {
+            id: 'book-1',
+            libraryId: 'lib-1',
+            media: { metadata: { title: 'Dune', authorName: 'Frank Herbert' }, duration: 3600 },
+          },
+        },
+        {
+          libraryItemId: 'pod-1',
+          episodeId: 'ep-1',
+          libraryItem: {
+            id: 'pod-1',
+            libraryId: 'lib-1',
+            media: { metadata: { title: 'The Daily', author: 'NYT' } },
+          },
+          episode: { title: 'Monday', audioFile: { duration: 1200 } },
+        },
+      ],
+    };
+
+    it('should list playlists with books and episodes', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ playlists: [playlistResponse] }),
+      } as Response);
+
+      const [playlist] = await client.getPlaylists();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/playlists',
+        expect.anything()
+      );
+      expect(playlist.items).toEqual([
+        { bookId: 'book-1', title: 'Dune', author: 'Frank Herbert', duration: 3600 },
+        {
+          bookId: 'pod-1',
+          episodeId: 'ep-1',
+          title: 'Monday',
+          author: 'The Daily',
+          duration: 1200,
+        },
+      ]);
+    });
+
+    it('should create a playlist with initial items', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(playlistResponse),
+      } as Response);
+
+      await client.createPlaylist('lib-1', 'Commute', [
+        { bookId: 'book-1' },
+        { bookId: 'pod-1', episodeId: 'ep-1' },
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/playlists',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            libraryId: 'lib-1',
+            name: 'Commute',
+            items: [{ libraryItemId: 'book-1' }, { libraryItemId: 'pod-1', episodeId: 'ep-1' }],
           }),
+        })
+      );
+    });
+
+    it('should add an episode to a playlist', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(playlistResponse),
       } as Response);
 
-      // Second call: search
+      await client.addToPlaylist('pl-1', 'pod-1', 'ep-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/playlists/pl-1/item',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ libraryItemId: 'pod-1', episodeId: 'ep-1' }),
+        })
+      );
+    });
+
+    it('should remove items and delete a playlist', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.reject(new SyntaxError('Unexpected token O')),
+      } as Response);
+
+      await client.removeFromPlaylist('pl-1', 'book-1');
+      await client.removeFromPlaylist('pl-1', 'pod-1', 'ep-1');
+      await client.deletePlaylist('pl-1');
+
+      expect(mockFetch.mock.calls.map((call) => call[0] as string)).toEqual([
+        'https://abs.example.com/api/playlists/pl-1/item/book-1',
+        'https://abs.example.com/api/playlists/pl-1/item/pod-1/ep-1',
+        'https://abs.example.com/api/playlists/pl-1',
+      ]);
+    });
+  });
+
+  describe('getItem', () => {
+    it('should return item details with chapters and tracks', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () =>
           Promise.resolve({
-            book: mockBooks.map((b) => ({
-              libraryItem: {
-                id: b.id,
-                media: {
-                  metadata: {
-                    title: b.title,
-                    authorName: b.author,
-                  },
-                  duration: b.duration,
-                },
-                libraryId: b.libraryId,
+            id: 'book-1',
+            libraryId: 'lib-1',
+            media: {
+              coverPath: '/covers/hobbit.jpg',
+              metadata: {
+                title: 'The Hobbit',
+                subtitle: 'There and Back Again',
+                authorName: 'J.R.R. Tolkien',
+                narratorName: 'Andy Serkis',
+                seriesName: 'Middle-earth',
+                genres: ['Fantasy'],
               },
-            })),
+              duration: 36000,
+              chapters: [
+                { id: 0, start: 0, end: 1800, title: 'An Unexpected Party' },
+                { id: 1, start: 1800, end: 36000, title: 'Roast Mutton' },
+              ],
+              tracks: [
+                {
+                  index: 1,
+                  startOffset: 0,
+                  duration: 36000,
+                  title: 'hobbit.m4b',
+                  contentUrl: '/s/item/book-1/hobbit.m4b',
+                  mimeType: 'audio/mp4',
+                },
+              ],
+            },
           }),
       } as Response);
 
-      const result: Book[] = await client.search('harry');
+      const result: BookDetails = await client.getItem('book-1');
 
       expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining('/search') as string,
+        'https://abs.example.com/api/items/book-1?expanded=1',
         expect.anything()
       );
-      expect(result).toHaveLength(1);
-      expect(result[0].title).toBe('Harry Potter');
+      expect(result.title).toBe('The Hobbit');
+      expect(result.narrator).toBe('Andy Serkis');
+      expect(result.series).toBe('Middle-earth');
+      expect(result.chapters).toHaveLength(2);
+      expect(result.chapters[1]).toEqual({ id: 1, start: 1800, end: 36000, title: 'Roast Mutton' });
+      expect(result.audioTracks[0].contentUrl).toBe('/s/item/book-1/hobbit.m4b');
     });
 
-    it('should return empty array for no results', async () => {
-      // First call: getLibraries
+    it('should default missing chapters and tracks to empty lists', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () =>
           Promise.resolve({
-            libraries: [{ id: 'lib-1', name: 'Audiobooks', folders: ['/books'], icon: 'book', mediaType: 'book' }],
+            id: 'book-2',
+            libraryId: 'lib-1',
+            media: { metadata: { title: 'No Chapters' }, duration: 100 },
           }),
       } as Response);
 
-      // Second call: search
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ book: [] }),
-      } as Response);
+      const result = await client.getItem('book-2');
 
-      const result: Book[] = await client.search('nonexistent');
+      expect(result.chapters).toEqual([]);
+      expect(result.audioTracks).toEqual([]);
+      expect(result.genres).toEqual([]);
+    });
+  });
+
+  describe('podcasts', () => {
+    function respond(body: unknown): Response {
+      return { ok: true, json: () => Promise.resolve(body) } as Response;
+    }
 
-      expect(result).toEqual([]);
+    it('should list episodes newest first', async () => {
+      mockFetch.mockResolvedValueOnce(
+        respond({
+          mediaType: 'podcast',
+          media: {
+            episodes: [
+              { id: 'ep-1', title: 'First', publishedAt: 1000, audioFile: { duration: 600 } },
+              { id: 'ep-2', title: 'Second', publishedAt: 2000, duration: 900, season: '1', episode: '2' },
+            ],
+          },
+        })
+      );
+
+      const episodes = await client.getPodcastEpisodes('pod-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/items/pod-1?expanded=1',
+        expect.anything()
+      );
+      expect(episodes.map((e) => e.id)).toEqual(['ep-2', 'ep-1']);
+      expect(episodes[0]).toEqual(
+        expect.objectContaining({ title: 'Second', season: '1', episode: '2', duration: 900 })
+      );
+      expect(episodes[1].duration).toBe(600);
+    });
+
+    it('should reject items that are not podcasts', async () => {
+      mockFetch.mockResolvedValueOnce(respond({ mediaType: 'book', media: {} }));
+
+      await expect(client.getPodcastEpisodes('book-1')).rejects.toThrow('not a podcast');
+    });
+
+    it('should start an episode session', async () => {
+      mockFetch.mockResolvedValueOnce(
+        respond({
+          id: 'session-1',
+          libraryItemId: 'pod-1',
+          episodeId: 'ep-2',
+          currentTime: 0,
+          startedAt: 1700000000000,
+        })
+      );
+
+      const session = await client.startSession('pod-1', 'ep-2');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/items/pod-1/play/ep-2',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(session.episodeId).toBe('ep-2');
+    });
+
+    it('should read and write episode progress', async () => {
+      const progress = {
+        progress: 0.5,
+        currentTime: 450,
+        duration: 900,
+        isFinished: false,
+        lastUpdate: 1700000000000,
+      };
+      mockFetch.mockResolvedValueOnce(respond(progress)).mockResolvedValueOnce(respond(progress));
+
+      const current = await client.getProgress('pod-1', 'ep-2');
+      await client.updateProgress('pod-1', 450, 'ep-2');
+
+      expect(current?.episodeId).toBe('ep-2');
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://abs.example.com/api/me/progress/pod-1/ep-2',
+        expect.anything()
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://abs.example.com/api/me/progress/pod-1/ep-2',
+        expect.objectContaining({ method: 'PATCH' })
+      );
+    });
+
+    it('should build episode stream URLs', () => {
+      expect(client.getStreamUrl('pod-1', { episodeId: 'ep-2' })).toBe(
+        'https://abs.example.com/api/items/pod-1/play/ep-2'
+      );
+    });
+
+    it('should list podcast items without crashing on missing book fields', async () => {
+      mockFetch.mockResolvedValueOnce(
+        respond({
+          results: [
+            {
+              id: 'pod-1',
+              libraryId: 'lib-2',
+              media: { metadata: { title: 'The Daily', author: 'NYT' } },
+            },
+          ],
+        })
+      );
+
+      const [podcast] = await client.getBooks('lib-2');
+
+      expect(podcast).toEqual(
+        expect.objectContaining({ title: 'The Daily', author: 'NYT', duration: 0 })
+      );
+    });
+  });
+
+  describe('search', () => {
+    const libraries = [
+      { id: 'lib-1', name: 'Audiobooks', folders: ['/books'], icon: 'book', mediaType: 'book' },
+      { id: 'lib-2', name: 'Podcasts', folders: ['/podcasts'], icon: 'podcast', mediaType: 'podcast' },
+    ];
+
+    function respond(body: unknown): Response {
+      return { ok: true, json: () => Promise.resolve(body) } as Response;
+    }
+
+    it('should search every library and group results', async () => {
+      mockFetch
+        .mockResolvedValueOnce(respond({ libraries }))
+        .mockResolvedValueOnce(
+          respond({
+            book: [
+              {
+                libraryItem: {
+                  id: 'book-1',
+                  libraryId: 'lib-1',
+                  media: {
+                    metadata: { title: 'Harry Potter', authorName: 'J.K. Rowling' },
+                    duration: 28800,
+                  },
+                },
+              },
+            ],
+            authors: [{ id: 'author-1', name: 'J.K. Rowling', numBooks: 7 }],
+            series: [
+              {
+                series: { id: 'series-1', name: 'Harry Potter' },
+                books: [
+                  {
+                    id: 'book-1',
+                    libraryId: 'lib-1',
+                    media: { metadata: { title: 'Harry Potter' }, duration: 28800 },
+                  },
+                ],
+              },
+            ],
+            narrators: [{ name: 'Jim Dale', numBooks: 7 }],
+            tags: [{ name: 'fantasy', numItems: 3 }],
+          })
+        )
+        .mockResolvedValueOnce(
+          respond({
+            podcast: [
+              {
+                libraryItem: {
+                  id: 'pod-1',
+                  libraryId: 'lib-2',
+                  media: { metadata: { title: 'Harry Potter Pod', author: 'Fans' }, numEpisodes: 12 },
+                },
+              },
+            ],
+            narrators: [{ name: 'Jim Dale', numBooks: 1 }],
+          })
+        );
+
+      const result: SearchResults = await client.search('harry');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/libraries/lib-1/search?q=harry',
+        expect.anything()
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/libraries/lib-2/search?q=harry',
+        expect.anything()
+      );
+      expect(result.books).toHaveLength(1);
+      expect(result.books[0].title).toBe('Harry Potter');
+      expect(result.podcasts).toEqual([
+        {
+          id: 'pod-1',
+          libraryId: 'lib-2',
+          title: 'Harry Potter Pod',
+          author: 'Fans',
+          numEpisodes: 12,
+          coverPath: undefined,
+        },
+      ]);
+      expect(result.authors).toEqual([
+        { id: 'author-1', libraryId: 'lib-1', name: 'J.K. Rowling', numBooks: 7 },
+      ]);
+      expect(result.series[0].name).toBe('Harry Potter');
+      expect(result.series[0].books[0].id).toBe('book-1');
+      expect(result.narrators).toEqual([{ name: 'Jim Dale', numBooks: 8 }]);
+      expect(result.tags).toEqual([{ name: 'fantasy', numItems: 3 }]);
+    });
+
+    it('should search only the given library', async () => {
+      mockFetch.mockResolvedValueOnce(respond({ book: [] }));
+
+      await client.search('harry', 'lib-2');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/libraries/lib-2/search?q=harry',
+        expect.anything()
+      );
+    });
+
+    it('should return empty groups for no results', async () => {
+      mockFetch
+        .mockResolvedValueOnce(respond({ libraries: libraries.slice(0, 1) }))
+        .mockResolvedValueOnce(respond({ book: [] }));
+
+      const result = await client.search('nonexistent');
+
+      expect(result).toEqual({
+        books: [],
+        podcasts: [],
+        authors: [],
+        series: [],
+        narrators: [],
+        tags: [],
+      });
     });
   });
 
@@ -260,6 +1091,272 @@ describe('AudiobookshelfClient', () => {
     });
   });
 
+  describe('getMediaProgress', () => {
+    it('should return progress for every started item', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            id: 'user-1',
+            mediaProgress: [
+              {
+                libraryItemId: 'book-1',
+                episodeId: null,
+                currentTime: 3600,
+                duration: 3600,
+                progress: 1,
+                isFinished: true,
+                lastUpdate: 1000,
+              },
+              {
+                libraryItemId: 'pod-1',
+                episodeId: 'ep-1',
+                currentTime: 60,
+                duration: 600,
+                progress: 0.1,
+                isFinished: false,
+                lastUpdate: 2000,
+              },
+            ],
+          }),
+      } as Response);
+
+      const result = await client.getMediaProgress();
+
+      expect(mockFetch).toHaveBeenCalledWith('https://abs.example.com/api/me', expect.anything());
+      expect(result).toEqual([
+        {
+          bookId: 'book-1',
+          episodeId: undefined,
+          currentTime: 3600,
+          duration: 3600,
+          progress: 1,
+          isFinished: true,
+          lastUpdate: 1000,
+        },
+        {
+          bookId: 'pod-1',
+          episodeId: 'ep-1',
+          currentTime: 60,
+          duration: 600,
+          progress: 0.1,
+          isFinished: false,
+          lastUpdate: 2000,
+        },
+      ]);
+    });
+  });
+
+  describe('bookmarks', () => {
+    it('should list bookmarks for one book ordered by time', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            bookmarks: [
+              { libraryItemId: 'book-1', title: 'Later', time: 900, createdAt: 2 },
+              { libraryItemId: 'book-2', title: 'Other book', time: 10, createdAt: 3 },
+              { libraryItemId: 'book-1', title: 'Earlier', time: 120, createdAt: 1 },
+            ],
+          }),
+      } as Response);
+
+      const result = await client.getBookmarks('book-1');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://abs.example.com/api/me', expect.anything());
+      expect(result).toEqual([
+        { bookId: 'book-1', title: 'Earlier', time: 120, createdAt: 1 },
+        { bookId: 'book-1', title: 'Later', time: 900, createdAt: 2 },
+      ]);
+    });
+
+    it('should create a bookmark', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ libraryItemId: 'book-1', title: 'Twist', time: 754, createdAt: 5 }),
+      } as Response);
+
+      const result = await client.createBookmark('book-1', 754, 'Twist');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/item/book-1/bookmark',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ time: 754, title: 'Twist' }),
+        })
+      );
+      expect(result).toEqual({ bookId: 'book-1', title: 'Twist', time: 754, createdAt: 5 });
+    });
+
+    it('should delete a bookmark by time', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.reject(new SyntaxError('Unexpected token O')),
+      } as Response);
+
+      await client.deleteBookmark('book-1', 754);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/item/book-1/bookmark/754',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('listening stats', () => {
+    it('should return stats with items ordered by time listened', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            totalTime: 5400,
+            today: 600,
+            days: { '2024-03-10': 600 },
+            items: {
+              'book-1': {
+                id: 'book-1',
+                timeListening: 1800,
+                mediaMetadata: { title: 'Dune', author: 'Frank Herbert' },
+              },
+              'book-2': {
+                id: 'book-2',
+                timeListening: 3600,
+                mediaMetadata: { title: 'Hyperion', authorName: 'Dan Simmons' },
+              },
+            },
+          }),
+      } as Response);
+
+      const result = await client.getListeningStats();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/listening-stats',
+        expect.anything()
+      );
+      expect(result).toEqual({
+        totalTime: 5400,
+        today: 600,
+        days: { '2024-03-10': 600 },
+        items: [
+          { bookId: 'book-2', title: 'Hyperion', author: 'Dan Simmons', timeListened: 3600 },
+          { bookId: 'book-1', title: 'Dune', author: 'Frank Herbert', timeListened: 1800 },
+        ],
+      });
+    });
+
+    it('should fetch a page of listening sessions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            total: 31,
+            numPages: 2,
+            page: 1,
+            itemsPerPage: 20,
+            sessions: [
+              {
+                id: 'session-1',
+                libraryItemId: 'pod-1',
+                episodeId: 'ep-1',
+                displayTitle: 'Episode 1',
+                displayAuthor: 'Podcaster',
+                timeListening: 900,
+                currentTime: 1200,
+                duration: 3000,
+                startedAt: 1000,
+                updatedAt: 2000,
+              },
+            ],
+          }),
+      } as Response);
+
+      const result = await client.getListeningSessions({ page: 1, pageSize: 20 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/listening-sessions?itemsPerPage=20&page=1',
+        expect.anything()
+      );
+      expect(result).toEqual({
+        sessions: [
+          {
+            id: 'session-1',
+            bookId: 'pod-1',
+            episodeId: 'ep-1',
+            title: 'Episode 1',
+            author: 'Podcaster',
+            timeListened: 900,
+            currentTime: 1200,
+            duration: 3000,
+            startedAt: 1000,
+            updatedAt: 2000,
+          },
+        ],
+        total: 31,
+        page: 1,
+        pageSize: 20,
+      });
+    });
+
+    it('should default to the first page of ten sessions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ total: 0, sessions: [] }),
+      } as Response);
+
+      await client.getListeningSessions();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/listening-sessions?itemsPerPage=10&page=0',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('getItemsInProgress', () => {
+    it('should return in-progress books, most recent first', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            libraryItems: [
+              {
+                id: 'book-old',
+                libraryId: 'lib-1',
+                progressLastUpdate: 1000,
+                media: { metadata: { title: 'Older' }, duration: 100 },
+              },
+              {
+                id: 'book-new',
+                libraryId: 'lib-1',
+                progressLastUpdate: 2000,
+                media: { metadata: { title: 'Newer', authorName: 'Author' }, duration: 200 },
+              },
+            ],
+          }),
+      } as Response);
+
+      const result = await client.getItemsInProgress();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/items-in-progress',
+        expect.anything()
+      );
+      expect(result.map((b) => b.id)).toEqual(['book-new', 'book-old']);
+      expect(result[0].lastUpdate).toBe(2000);
+      expect(result[0].author).toBe('Author');
+    });
+
+    it('should return empty array when nothing is in progress', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ libraryItems: [] }),
+      } as Response);
+
+      expect(await client.getItemsInProgress()).toEqual([]);
+    });
+  });
+
   describe('updateProgress', () => {
     it('should update progress for a book', async () => {
       const mockProgress: Progress = {
@@ -296,6 +1393,78 @@ describe('AudiobookshelfClient', () => {
     });
   });
 
+  describe('finished state and reset', () => {
+    const plainOk = {
+      ok: true,
+      json: () => Promise.reject(new SyntaxError('Unexpected token O')),
+    } as Response;
+
+    it('should mark an item finished or not finished', async () => {
+      mockFetch.mockResolvedValue(plainOk);
+
+      await client.markFinished('book-1', true);
+      await client.markFinished('pod-1', false, 'ep-1');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://abs.example.com/api/me/progress/book-1',
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ isFinished: true }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://abs.example.com/api/me/progress/pod-1/ep-1',
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ isFinished: false }) })
+      );
+    });
+
+    it('should send batch updates with library item IDs', async () => {
+      mockFetch.mockResolvedValueOnce(plainOk);
+
+      await client.updateProgressBatch([
+        { bookId: 'book-1', isFinished: true },
+        { bookId: 'book-2', currentTime: 0, isFinished: false },
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/me/progress/batch/update',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify([
+            { libraryItemId: 'book-1', isFinished: true },
+            { libraryItemId: 'book-2', currentTime: 0, isFinished: false },
+          ]),
+        })
+      );
+    });
+
+    it('should reset progress by its progress ID', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 'progress-9', libraryItemId: 'book-1' }),
+        } as Response)
+        .mockResolvedValueOnce(plainOk);
+
+      expect(await client.resetProgress('book-1')).toBe(true);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://abs.example.com/api/me/progress/progress-9',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should report when there is no progress to reset', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: () => Promise.resolve(''),
+      } as Response);
+
+      expect(await client.resetProgress('book-1')).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('startSession', () => {
     it('should start a playback session', async () => {
       const mockSession: PlaybackSession = {
@@ -334,6 +1503,25 @@ describe('AudiobookshelfClient', () => {
     });
   });
 
+  describe('syncSession', () => {
+    it('should post position, listened time and duration to the session', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.reject(new SyntaxError('Unexpected token O')),
+      } as Response);
+
+      await client.syncSession('session-1', { currentTime: 1800, timeListened: 12.5, duration: 3600 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/session/session-1/sync',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ currentTime: 1800, timeListened: 12.5, duration: 3600 }),
+        })
+      );
+    });
+  });
+
   describe('closeSession', () => {
     it('should close a playback session', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -373,12 +1561,17 @@ describe('AudiobookshelfClient', () => {
 
       expect(url).toBe('https://abs.example.com/api/items/book-1/play');
     });
+  });
 
-    it('should include auth token in URL when requested', () => {
-      const url: string = client.getStreamUrl('book-1', { includeToken: true });
+  describe('getCoverUrl', () => {
+    it('should return the cover URL', () => {
+      expect(client.getCoverUrl('book-1')).toBe('https://abs.example.com/api/items/book-1/cover');
+    });
 
-      expect(url).toContain('token=');
-      expect(url).toContain('test-api-key');
+    it('should add size and format when requested', () => {
+      expect(client.getCoverUrl('book-1', { width: 800, height: 600, format: 'jpeg' })).toBe(
+        'https://abs.example.com/api/items/book-1/cover?width=800&height=600&format=jpeg'
+      );
     });
   });
 
@@ -2,7 +2,14 @@
  * Tests for Configuration module
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Config, loadConfig, saveConfig, type AppConfig } from '../src/lib/config.js';
+import {
+  Config,
+  getStreamSecret,
+  loadConfig,
+  saveConfig,
+  updateConfig,
+  type AppConfig,
+} from '../src/lib/config.js';
 import * as fs from 'fs/promises';
 
 // Mock fs/promises
@@ -11,6 +18,7 @@ vi.mock('fs/promises', () => ({
   writeFile: vi.fn(),
   mkdir: vi.fn(),
   access: vi.fn(),
+  chmod: vi.fn(),
 }));
 
 describe('Config', () => {
@@ -40,6 +48,28 @@ describe('Config', () => {
       expect(config.defaultDevice).toBe('Living Room');
     });
 
+    it('should load timeout and retries from environment variables', async () => {
+      process.env.ABS_TIMEOUT = '2500';
+      process.env.ABS_RETRIES = '4';
+
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      const config = await loadConfig();
+
+      expect(config.timeout).toBe(2500);
+      expect(config.retries).toBe(4);
+    });
+
+    it('should ignore invalid ABS_RETRIES', async () => {
+      process.env.ABS_RETRIES = '-1';
+
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      const config = await loadConfig();
+
+      expect(config.retries).toBeUndefined();
+    });
+
     it('should load config from config file', async () => {
       const configContent = JSON.stringify({
         url: 'https://abs-file.example.com',
@@ -108,6 +138,143 @@ describe('Config', () => {
     });
   });
 
+  describe('profiles', () => {
+    const fileConfig: AppConfig = {
+      url: 'https://abs.example.com',
+      apiKey: 'shared-token',
+      refreshToken: 'shared-refresh',
+      defaultDevice: 'Kitchen',
+      activeProfile: 'alice',
+      profiles: {
+        alice: { apiKey: 'alice-token', defaultDevice: 'Bedroom' },
+        bob: { url: 'https://bob.example.com', apiKey: 'bob-token', refreshToken: 'bob-refresh' },
+      },
+    };
+
+    beforeEach(() => {
+      delete process.env.ABS_SERVER;
+      delete process.env.ABS_TOKEN;
+      delete process.env.ABS_DEVICE;
+      delete process.env.ABS_PROFILE;
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(fileConfig));
+    });
+
+    it('should apply the active profile over top-level settings', async () => {
+      const config = await loadConfig();
+
+      expect(config.activeProfile).toBe('alice');
+      expect(config.url).toBe('https://abs.example.com');
+      expect(config.apiKey).toBe('alice-token');
+      expect(config.defaultDevice).toBe('Bedroom');
+    });
+
+    it('should not inherit credentials from the top level', async () => {
+      const config = await loadConfig();
+
+      expect(config.refreshToken).toBeUndefined();
+    });
+
+    it('should prefer the profile option, then ABS_PROFILE, over activeProfile', async () => {
+      process.env.ABS_PROFILE = 'bob';
+      expect((await loadConfig()).apiKey).toBe('bob-token');
+      expect((await loadConfig({ profile: 'alice' })).apiKey).toBe('alice-token');
+    });
+
+    it('should throw for an unknown profile', async () => {
+      await expect(loadConfig({ profile: 'carol' })).rejects.toThrow('Unknown profile: carol');
+    });
+
+    it('should let env vars override the profile', async () => {
+      process.env.ABS_TOKEN = 'env-token';
+
+      const config = await loadConfig({ profile: 'bob' });
+
+      expect(config.apiKey).toBe('env-token');
+      expect(config.url).toBe('https://bob.example.com');
+    });
+  });
+
+  describe('updateConfig', () => {
+    function savedConfig(): AppConfig {
+      return JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string) as AppConfig;
+    }
+
+    beforeEach(() => {
+      process.env.ABS_TOKEN = 'env-token';
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ url: 'https://abs.example.com', profiles: { bob: { apiKey: 'old' } } })
+      );
+    });
+
+    it('should update the named profile only', async () => {
+      await updateConfig({ apiKey: 'new', refreshToken: 'refresh' }, 'bob');
+
+      expect(savedConfig()).toEqual({
+        url: 'https://abs.example.com',
+        profiles: { bob: { apiKey: 'new', refreshToken: 'refresh' } },
+      });
+    });
+
+    it('should update top-level settings without writing env overrides', async () => {
+      await updateConfig({ defaultDevice: 'Kitchen' });
+
+      const saved = savedConfig();
+      expect(saved.defaultDevice).toBe('Kitchen');
+      expect(saved.apiKey).toBeUndefined();
+    });
+  });
+
+  describe('getStreamSecret', () => {
+    it('should use the configured secret', async () => {
+      await expect(getStreamSecret({ proxy: { streamSecret: 'shared' } })).resolves.toBe('shared');
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should load ABS_STREAM_SECRET from the environment', async () => {
+      process.env.ABS_STREAM_SECRET = 'from-env';
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      const config = await loadConfig();
+
+      expect(config.proxy?.streamSecret).toBe('from-env');
+    });
+
+    it('should load a valid ABS_STREAM_MODE from the environment', async () => {
+      process.env.ABS_STREAM_MODE = 'hls';
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      await expect(loadConfig()).resolves.toMatchObject({ proxy: { streamMode: 'hls' } });
+
+      process.env.ABS_STREAM_MODE = 'dash';
+      const config = await loadConfig();
+      expect(config.proxy?.streamMode).toBeUndefined();
+    });
+
+    it('should load a supported ABS_OUTPUT_FORMAT from the environment', async () => {
+      process.env.ABS_OUTPUT_FORMAT = 'opus';
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      await expect(loadConfig()).resolves.toMatchObject({ proxy: { outputFormat: 'opus' } });
+
+      process.env.ABS_OUTPUT_FORMAT = 'ogg';
+      const config = await loadConfig();
+      expect(config.proxy?.outputFormat).toBeUndefined();
+    });
+
+    it('should generate and save a secret on first use', async () => {
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ proxy: { listenPort: 9000 } }));
+
+      const secret = await getStreamSecret({});
+
+      expect(secret).toMatch(/^[\w-]{43}$/);
+      const saved = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string) as AppConfig;
+      expect(saved.proxy).toEqual({ listenPort: 9000, streamSecret: secret });
+    });
+  });
+
   describe('saveConfig', () => {
     it('should save config to file', async () => {
       vi.mocked(fs.mkdir).mockResolvedValue(undefined);
@@ -138,6 +305,21 @@ describe('Config', () => {
 
       expect(fs.mkdir).toHaveBeenCalledWith(expect.stringContaining('abs'), { recursive: true });
     });
+
+    it('should make the config file readable by the owner only', async () => {
+      vi.mocked(fs.mkdir).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+
+      await saveConfig({ url: 'https://test.com', apiKey: 'secret-key' });
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining('config.json'),
+        expect.any(String),
+        { encoding: 'utf-8', mode: 0o600 }
+      );
+      expect(fs.chmod).toHaveBeenCalledWith(expect.stringContaining('config.json'), 0o600);
+    });
   });
 
   describe('Config class', () => {
@@ -0,0 +1,888 @@
+/**
+ * Tests for the playback daemon and its socket protocol
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PlaybackDaemon } from '../src/daemon/daemon.js';
+import { DaemonClient, DaemonNotRunningError } from '../src/daemon/client.js';
+import { parseRequest, getSocketPath } from '../src/daemon/protocol.js';
+import { verifyStreamToken } from '../src/proxy/stream-token.js';
+import type { CastDevice } from '../src/cast/types.js';
+import type { MediaLoadOptions } from '../src/cast/client.js';
+
+const STREAM_SECRET = 'test-secret';
+
+// Mock CastClient
+function createMockCastClient() {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    connect: vi.fn().mockResolvedValue(undefined),
+    loadMedia: vi.fn().mockResolvedValue(undefined),
+    pause: vi.fn().mockResolvedValue(undefined),
+    play: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    seek: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn(),
+    isConnected: vi.fn().mockReturnValue(true),
+    getPlayer: vi.fn().mockReturnValue(null),
+    getStatus: vi.fn().mockResolvedValue({
+      currentTime: 120,
+      playerState: 'PLAYING',
+      volume: { level: 1, muted: false },
+      media: { contentId: 'url', contentType: 'audio/mpeg', duration: 3600 },
+    }),
+  });
+}
+
+// Mock AudiobookshelfClient
+function createMockAbsClient() {
+  return {
+    getItem: vi.fn().mockResolvedValue({
+      id: 'book-1',
+      libraryId: 'lib-1',
+      title: 'The Hobbit',
+      author: 'J.R.R. Tolkien',
+      duration: 3600,
+      genres: [],
+      chapters: [
+        { id: 0, start: 0, end: 60, title: 'An Unexpected Party' },
+        { id: 1, start: 60, end: 3600, title: 'Roast Mutton' },
+      ],
+      audioTracks: [],
+    }),
+    getProgress: vi.fn().mockResolvedValue(null),
+    startSession: vi.fn().mockResolvedValue({
+      id: 'session-1',
+      bookId: 'book-1',
+      currentTime: 100,
+      startedAt: 1700000000000,
+    }),
+    closeSession: vi.fn().mockResolvedValue(undefined),
+    syncSession: vi.fn().mockResolvedValue(undefined),
+    markFinished: vi.fn().mockResolvedValue(undefined),
+    getPodcastEpisodes: vi.fn().mockResolvedValue([
+      {
+        id: 'ep-2',
+        title: 'Episode Two',
+        publishedAt: 1700000000000,
+        duration: 1800,
+        chapters: [],
+      },
+    ]),
+  };
+}
+
+describe('PlaybackDaemon', () => {
+  const device: CastDevice = { name: 'Living Room', host: '192.168.1.100', port: 8009 };
+  let castClient: ReturnType<typeof createMockCastClient>;
+  let absClient: ReturnType<typeof createMockAbsClient>;
+  let daemon: PlaybackDaemon;
+  let socketDir: string;
+
+  function loadedMedia(): MediaLoadOptions {
+    return castClient.loadMedia.mock.calls[0][0] as MediaLoadOptions;
+  }
+
+  beforeEach(() => {
+    socketDir = mkdtempSync(join(tmpdir(), 'abs-daemon-'));
+    castClient = createMockCastClient();
+    absClient = createMockAbsClient();
+    daemon = new PlaybackDaemon({
+      absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+      castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+      socketPath: join(socketDir, 'daemon.sock'),
+      proxyUrl: 'http://192.168.1.10:8765/',
+      streamSecret: STREAM_SECRET,
+    });
+    daemon.on('error', () => {
+      // Errors are asserted explicitly where relevant
+    });
+  });
+
+  afterEach(async () => {
+    await daemon.stop();
+    rmSync(socketDir, { recursive: true, force: true });
+  });
+
+  describe('handleRequest', () => {
+    it('should report inactive status before playback', async () => {
+      const status = await daemon.handleRequest({ command: 'status' });
+      expect(status.playback.active).toBe(false);
+      expect(status.sleepTimer.active).toBe(false);
+    });
+
+    it('should start a session and load media on play', async () => {
+      const status = await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      expect(absClient.startSession).toHaveBeenCalledWith('book-1', undefined);
+      expect(castClient.connect).toHaveBeenCalledWith(device);
+      expect(castClient.loadMedia).toHaveBeenCalledWith(
+        expect.objectContaining({
+          resumePosition: 100,
+          contentType: 'audio/mpeg',
+          title: 'The Hobbit',
+          author: 'J.R.R. Tolkien',
+          chapterTitle: 'Roast Mutton',
+          chapterNumber: 2,
+        })
+      );
+      expect(status.playback).toEqual(
+        expect.objectContaining({
+          active: true,
+          bookId: 'book-1',
+          title: 'The Hobbit',
+          chapter: { number: 2, title: 'Roast Mutton' },
+          sessionId: 'session-1',
+          device: 'Living Room',
+          position: 120,
+          duration: 3600,
+        })
+      );
+    });
+
+    it('should resume from saved progress', async () => {
+      absClient.getProgress.mockResolvedValueOnce({
+        bookId: 'book-1',
+        currentTime: 2500,
+        duration: 3600,
+        progress: 0.69,
+        isFinished: false,
+        lastUpdate: 1700000000000,
+      });
+
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      expect(absClient.getProgress).toHaveBeenCalledWith('book-1', undefined);
+      expect(castClient.loadMedia).toHaveBeenCalledWith(
+        expect.objectContaining({ resumePosition: 2500 })
+      );
+    });
+
+    it('should stream through the proxy with a signed single-item token', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const url = new URL(loadedMedia().url);
+      expect(`${url.origin}${url.pathname}`).toBe('http://192.168.1.10:8765/stream/book-1');
+      expect(verifyStreamToken(url.searchParams.get('token') ?? '', STREAM_SECRET)).toEqual({
+        bookId: 'book-1',
+        episodeId: undefined,
+        expiresAt: expect.any(Number) as number,
+      });
+    });
+
+    it('should hand out an HLS playlist starting at the resume position in HLS mode', async () => {
+      const hlsDaemon = new PlaybackDaemon({
+        absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+        castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+        socketPath: join(socketDir, 'hls.sock'),
+        proxyUrl: 'http://192.168.1.10:8765',
+        streamSecret: STREAM_SECRET,
+        streamMode: 'hls',
+      });
+
+      await hlsDaemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const media = loadedMedia();
+      const url = new URL(media.url);
+      expect(`${url.origin}${url.pathname}`).toBe('http://192.168.1.10:8765/hls/book-1/playlist.m3u8');
+      expect(url.searchParams.get('start')).toBe('100');
+      expect(media).toMatchObject({
+        contentType: 'application/vnd.apple.mpegurl',
+        hlsSegmentFormat: 'ts_aac',
+      });
+      await hlsDaemon.stop();
+    });
+
+    it('should request the configured output format', async () => {
+      const opusDaemon = new PlaybackDaemon({
+        absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+        castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+        socketPath: join(socketDir, 'opus.sock'),
+        proxyUrl: 'http://192.168.1.10:8765',
+        streamSecret: STREAM_SECRET,
+        outputFormat: 'opus',
+      });
+
+      await opusDaemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const media = loadedMedia();
+      expect(new URL(media.url).searchParams.get('format')).toBe('opus');
+      expect(media.contentType).toBe('audio/ogg; codecs=opus');
+      await opusDaemon.stop();
+    });
+
+    describe('with a format that cannot seek', () => {
+      let opusDaemon: PlaybackDaemon;
+
+      beforeEach(async () => {
+        opusDaemon = new PlaybackDaemon({
+          absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+          castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+          socketPath: join(socketDir, 'opus.sock'),
+          proxyUrl: 'http://192.168.1.10:8765',
+          streamSecret: STREAM_SECRET,
+          outputFormat: 'opus',
+        });
+        await opusDaemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      });
+
+      afterEach(async () => {
+        await opusDaemon.stop();
+      });
+
+      it('should start the stream at the resume position', () => {
+        const media = loadedMedia();
+        expect(new URL(media.url).searchParams.get('start')).toBe('100');
+        expect(media).toMatchObject({ resumePosition: 0, duration: 3500 });
+      });
+
+      it('should report and sync positions in book time', async () => {
+        castClient.getStatus.mockResolvedValue({
+          currentTime: 120,
+          playerState: 'PAUSED',
+          volume: { level: 1, muted: false },
+          media: { contentId: 'url', contentType: 'audio/ogg', duration: 3500 },
+        });
+        const status = await opusDaemon.handleRequest({ command: 'pause' });
+
+        expect(status.playback).toMatchObject({ position: 220, duration: 3600 });
+        expect(absClient.syncSession).toHaveBeenCalledWith(
+          'session-1',
+          expect.objectContaining({ currentTime: 220 })
+        );
+      });
+
+      it('should reload the stream at the target instead of seeking', async () => {
+        await opusDaemon.handleRequest({ command: 'chapter', action: 'goto', number: 2 });
+
+        expect(castClient.seek).not.toHaveBeenCalled();
+        const reloaded = castClient.loadMedia.mock.calls[1][0] as MediaLoadOptions;
+        expect(new URL(reloaded.url).searchParams.get('start')).toBe('60');
+        expect(reloaded).toMatchObject({ resumePosition: 0, chapterNumber: 2 });
+        expect(absClient.syncSession).toHaveBeenLastCalledWith(
+          'session-1',
+          expect.objectContaining({ currentTime: 60 })
+        );
+
+        const status = await opusDaemon.handleRequest({ command: 'status' });
+        expect(status.playback.position).toBe(180);
+      });
+    });
+
+    it('should issue tokens that expire', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const token = new URL(loadedMedia().url).searchParams.get('token') ?? '';
+      const claims = verifyStreamToken(token, STREAM_SECRET);
+      expect(claims?.expiresAt).toBeLessThanOrEqual(Date.now() + 12 * 60 * 60 * 1000);
+      expect(verifyStreamToken(token, STREAM_SECRET, Date.now() + 13 * 60 * 60 * 1000)).toBeNull();
+    });
+
+    it('should send the narrator and a proxied cover to the Cast device', async () => {
+      absClient.getItem.mockResolvedValueOnce({
+        ...(await absClient.getItem('book-1')),
+        narrator: 'Andy Serkis',
+        coverPath: '/metadata/items/book-1/cover.jpg',
+      });
+
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const media = loadedMedia();
+      expect(media.narrator).toBe('Andy Serkis');
+      const cover = new URL(media.coverUrl ?? '');
+      expect(`${cover.origin}${cover.pathname}`).toBe('http://192.168.1.10:8765/cover/book-1');
+      expect(cover.searchParams.get('width')).toBe('800');
+      expect(cover.searchParams.get('token')).toBe(new URL(media.url).searchParams.get('token'));
+    });
+
+    it('should not send a cover for items without one', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      expect(castClient.loadMedia).toHaveBeenCalledWith(
+        expect.objectContaining({ coverUrl: undefined })
+      );
+    });
+
+    it('should restart finished books from the beginning', async () => {
+      absClient.getProgress.mockResolvedValueOnce({
+        bookId: 'book-1',
+        currentTime: 3600,
+        duration: 3600,
+        progress: 1,
+        isFinished: true,
+        lastUpdate: 1700000000000,
+      });
+
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      expect(castClient.loadMedia).toHaveBeenCalledWith(
+        expect.objectContaining({ resumePosition: 0 })
+      );
+    });
+
+    it('should close the session if loading media fails', async () => {
+      castClient.loadMedia.mockRejectedValueOnce(new Error('Load failed'));
+
+      await expect(
+        daemon.handleRequest({ command: 'play', bookId: 'book-1', device })
+      ).rejects.toThrow('Load failed');
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 100);
+
+      const status = await daemon.handleRequest({ command: 'status' });
+      expect(status.playback.active).toBe(false);
+    });
+
+    it('should pause and sync position', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'pause' });
+
+      expect(castClient.pause).toHaveBeenCalled();
+      expect(absClient.syncSession).toHaveBeenCalledWith('session-1', {
+        currentTime: 120,
+        timeListened: 0,
+        duration: 3600,
+      });
+    });
+
+    it('should resume playback', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'resume' });
+
+      expect(castClient.play).toHaveBeenCalled();
+    });
+
+    it('should reject pause without playback', async () => {
+      await expect(daemon.handleRequest({ command: 'pause' })).rejects.toThrow(
+        /no active playback/i
+      );
+    });
+
+    it('should stop playback and close the session at the current position', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      const status = await daemon.handleRequest({ command: 'stop' });
+
+      expect(castClient.stop).toHaveBeenCalled();
+      expect(castClient.disconnect).toHaveBeenCalled();
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 120);
+      expect(status.playback.active).toBe(false);
+    });
+
+    it('should close the previous session when playing another book', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      absClient.startSession.mockResolvedValueOnce({
+        id: 'session-2',
+        bookId: 'book-2',
+        currentTime: 0,
+        startedAt: 1700000000000,
+      });
+
+      const status = await daemon.handleRequest({ command: 'play', bookId: 'book-2', device });
+
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 120);
+      expect(status.playback.sessionId).toBe('session-2');
+    });
+
+    it('should start and cancel the sleep timer', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      const started = await daemon.handleRequest({ command: 'sleep', minutes: 30 });
+      expect(started.sleepTimer.active).toBe(true);
+      expect(started.sleepTimer.remainingSeconds).toBeGreaterThan(0);
+
+      const cancelled = await daemon.handleRequest({ command: 'sleep-cancel' });
+      expect(cancelled.sleepTimer.active).toBe(false);
+    });
+
+    it('should reject a sleep timer without playback', async () => {
+      await expect(
+        daemon.handleRequest({ command: 'sleep', minutes: 30 })
+      ).rejects.toThrow(/no active playback/i);
+    });
+
+    it('should seek to the previous chapter and sync progress', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'chapter', action: 'prev' });
+
+      expect(castClient.seek).toHaveBeenCalledWith(0);
+      expect(absClient.syncSession).toHaveBeenCalledWith(
+        'session-1',
+        expect.objectContaining({ currentTime: 0 })
+      );
+    });
+
+    it('should seek to a numbered chapter', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      castClient.getStatus.mockResolvedValueOnce({
+        currentTime: 10,
+        playerState: 'PLAYING',
+        volume: { level: 1, muted: false },
+      });
+      await daemon.handleRequest({ command: 'chapter', action: 'goto', number: 2 });
+
+      expect(castClient.seek).toHaveBeenCalledWith(60);
+    });
+
+    it('should reject next on the last chapter', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      await expect(
+        daemon.handleRequest({ command: 'chapter', action: 'next' })
+      ).rejects.toThrow(/last chapter/);
+      expect(castClient.seek).not.toHaveBeenCalled();
+    });
+
+    it('should reject an out-of-range chapter number', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      await expect(
+        daemon.handleRequest({ command: 'chapter', action: 'goto', number: 5 })
+      ).rejects.toThrow(/out of range \(1-2\)/);
+    });
+
+    it('should seek relative to the current position and sync progress', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'seek', target: { type: 'relative', seconds: 30 } });
+
+      expect(castClient.seek).toHaveBeenCalledWith(150);
+      expect(absClient.syncSession).toHaveBeenCalledWith(
+        'session-1',
+        expect.objectContaining({ currentTime: 150 })
+      );
+    });
+
+    it('should clamp seeks to the book duration', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'seek', target: { type: 'absolute', seconds: 99999 } });
+
+      expect(castClient.seek).toHaveBeenCalledWith(3600);
+    });
+
+    it('should reload the stream at a new speed and report book time', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      const status = await daemon.handleRequest({ command: 'speed', speed: 1.5 });
+
+      const reloaded = castClient.loadMedia.mock.calls[1][0] as MediaLoadOptions;
+      const url = new URL(reloaded.url);
+      expect(url.searchParams.get('speed')).toBe('1.5');
+      expect(url.searchParams.get('start')).toBe('120');
+      expect(reloaded).toMatchObject({ resumePosition: 0, duration: (3600 - 120) / 1.5 });
+      expect(absClient.syncSession).toHaveBeenLastCalledWith(
+        'session-1',
+        expect.objectContaining({ currentTime: 120 })
+      );
+
+      // 120 seconds into the new stream at 1.5x is 180 seconds of book
+      expect(status.playback).toMatchObject({ speed: 1.5, position: 300 });
+    });
+
+    it('should reload instead of seeking while sped up', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'speed', speed: 2 });
+      await daemon.handleRequest({ command: 'seek', target: { type: 'absolute', seconds: 600 } });
+
+      expect(castClient.seek).not.toHaveBeenCalled();
+      const reloaded = castClient.loadMedia.mock.calls[2][0] as MediaLoadOptions;
+      expect(new URL(reloaded.url).searchParams.get('start')).toBe('600');
+    });
+
+    it('should return to a seekable stream at normal speed', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      await daemon.handleRequest({ command: 'speed', speed: 2 });
+      castClient.getStatus.mockResolvedValueOnce({
+        currentTime: 10,
+        playerState: 'PLAYING',
+        volume: { level: 1, muted: false },
+      });
+      await daemon.handleRequest({ command: 'speed', speed: 1 });
+
+      const reloaded = castClient.loadMedia.mock.calls[2][0] as MediaLoadOptions;
+      const url = new URL(reloaded.url);
+      expect(url.searchParams.has('speed')).toBe(false);
+      expect(url.searchParams.has('start')).toBe(false);
+      expect(reloaded.resumePosition).toBe(140);
+    });
+
+    it('should reject speed changes in HLS mode', async () => {
+      const hlsDaemon = new PlaybackDaemon({
+        absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+        castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+        socketPath: join(socketDir, 'hls.sock'),
+        proxyUrl: 'http://192.168.1.10:8765',
+        streamSecret: STREAM_SECRET,
+        streamMode: 'hls',
+      });
+      await hlsDaemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      await expect(hlsDaemon.handleRequest({ command: 'speed', speed: 1.5 })).rejects.toThrow(
+        /progressive/
+      );
+      await hlsDaemon.stop();
+    });
+
+    it('should play a podcast episode and track its progress', async () => {
+      absClient.getItem.mockResolvedValueOnce({
+        id: 'pod-1',
+        libraryId: 'lib-2',
+        mediaType: 'podcast',
+        title: 'The Daily',
+        duration: 0,
+        genres: [],
+        chapters: [],
+        audioTracks: [],
+      });
+
+      const status = await daemon.handleRequest({
+        command: 'play',
+        bookId: 'pod-1',
+        episodeId: 'ep-2',
+        device,
+      });
+
+      expect(absClient.getProgress).toHaveBeenCalledWith('pod-1', 'ep-2');
+      expect(absClient.startSession).toHaveBeenCalledWith('pod-1', 'ep-2');
+      const token = new URL(loadedMedia().url).searchParams.get('token') ?? '';
+      expect(verifyStreamToken(token, STREAM_SECRET)).toEqual(
+        expect.objectContaining({ bookId: 'pod-1', episodeId: 'ep-2' })
+      );
+      expect(castClient.loadMedia).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Episode Two', author: 'The Daily', duration: 1800 })
+      );
+      expect(status.playback).toEqual(
+        expect.objectContaining({ bookId: 'pod-1', episodeId: 'ep-2', title: 'Episode Two' })
+      );
+
+      await daemon.handleRequest({ command: 'pause' });
+      expect(absClient.syncSession).toHaveBeenCalledWith('session-1', {
+        currentTime: 120,
+        timeListened: 0,
+        duration: 1800,
+      });
+    });
+
+    it('should reject a podcast without an episode', async () => {
+      absClient.getItem.mockResolvedValueOnce({
+        id: 'pod-1',
+        libraryId: 'lib-2',
+        mediaType: 'podcast',
+        title: 'The Daily',
+        duration: 0,
+        genres: [],
+        chapters: [],
+        audioTracks: [],
+      });
+
+      await expect(
+        daemon.handleRequest({ command: 'play', bookId: 'pod-1', device })
+      ).rejects.toThrow('is a podcast');
+      expect(absClient.startSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown episode', async () => {
+      await expect(
+        daemon.handleRequest({ command: 'play', bookId: 'pod-1', episodeId: 'ep-9', device })
+      ).rejects.toThrow('Episode ep-9 not found');
+    });
+
+    it('should drop playback when the Cast connection errors', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      castClient.emit('error', new Error('Connection reset'));
+
+      const status = await daemon.handleRequest({ command: 'status' });
+      expect(status.playback.active).toBe(false);
+      // The last position read from the device
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 120);
+    });
+
+    it('should close a resumed book at its resume position when the connection drops at once', async () => {
+      absClient.getProgress.mockResolvedValueOnce({ currentTime: 2500, isFinished: false });
+      castClient.getStatus.mockResolvedValue(null);
+      const opusDaemon = new PlaybackDaemon({
+        absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+        castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+        socketPath: join(socketDir, 'opus.sock'),
+        proxyUrl: 'http://192.168.1.10:8765',
+        streamSecret: STREAM_SECRET,
+        outputFormat: 'opus',
+      });
+      opusDaemon.on('error', () => {
+        // Expected: the connection error is reported
+      });
+      await opusDaemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+      castClient.emit('error', new Error('Connection reset'));
+
+      // The stream starts at the resume position, so the device has played none of it
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 2500);
+      await opusDaemon.stop();
+    });
+
+    it('should stop at the last known position when the device has no status', async () => {
+      await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+      castClient.getStatus.mockResolvedValue(null);
+      await daemon.handleRequest({ command: 'seek', target: { type: 'absolute', seconds: 900 } });
+
+      await daemon.handleRequest({ command: 'stop' });
+
+      expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 900);
+    });
+
+    describe('when playback finishes', () => {
+      const finished = { playerState: 'IDLE', idleReason: 'FINISHED', currentTime: 3600 };
+      let player: EventEmitter & { getStatus: ReturnType<typeof vi.fn> };
+
+      beforeEach(() => {
+        player = Object.assign(new EventEmitter(), { getStatus: vi.fn() });
+        castClient.getPlayer.mockReturnValue(player);
+      });
+
+      it('should sync the session with listened time when the tracker reports progress', async () => {
+        await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+
+        player.emit('status', { playerState: 'PLAYING', currentTime: 200 });
+
+        await vi.waitFor(() => {
+          expect(absClient.syncSession).toHaveBeenCalledWith('session-1', {
+            currentTime: 200,
+            timeListened: expect.any(Number) as number,
+            duration: 3600,
+          });
+        });
+      });
+
+      it('should mark the item finished and close the session', async () => {
+        absClient.getItem.mockResolvedValueOnce({
+          id: 'pod-1',
+          libraryId: 'lib-2',
+          mediaType: 'podcast',
+          title: 'The Daily',
+          duration: 0,
+          genres: [],
+          chapters: [],
+          audioTracks: [],
+        });
+        await daemon.handleRequest({ command: 'play', bookId: 'pod-1', episodeId: 'ep-2', device });
+
+        const onFinished = vi.fn();
+        daemon.on('playback-finished', onFinished);
+        player.emit('status', finished);
+
+        await vi.waitFor(() => {
+          expect(onFinished).toHaveBeenCalledWith({ bookId: 'pod-1', position: 3600 });
+        });
+        expect(absClient.syncSession).toHaveBeenCalledWith(
+          'session-1',
+          expect.objectContaining({ currentTime: 3600, duration: 1800 })
+        );
+        expect(absClient.markFinished).toHaveBeenCalledWith('pod-1', true, 'ep-2');
+        expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 3600);
+        expect((await daemon.handleRequest({ command: 'status' })).playback.active).toBe(false);
+      });
+
+      it('should start the next queued item when the current one finishes', async () => {
+        const status = await daemon.handleRequest({
+          command: 'play',
+          bookId: 'book-1',
+          device,
+          queue: [{ bookId: 'book-2' }, { bookId: 'pod-1', episodeId: 'ep-2' }],
+        });
+        expect(status.playback.queued).toBe(2);
+
+        const started = new Promise((resolve) => daemon.once('playback-started', resolve));
+        player.emit('status', finished);
+
+        expect(await started).toEqual(expect.objectContaining({ bookId: 'book-2' }));
+        expect(absClient.markFinished).toHaveBeenCalledWith('book-1', true, undefined);
+        expect(absClient.closeSession).toHaveBeenCalledWith('session-1', 3600);
+        expect(absClient.startSession).toHaveBeenLastCalledWith('book-2', undefined);
+        expect(castClient.connect).toHaveBeenLastCalledWith(device);
+        expect((await daemon.handleRequest({ command: 'status' })).playback.queued).toBe(1);
+      });
+
+      it('should skip queued items that fail to start', async () => {
+        await daemon.handleRequest({
+          command: 'play',
+          bookId: 'book-1',
+          device,
+          queue: [{ bookId: 'missing' }, { bookId: 'book-3' }],
+        });
+        absClient.getItem.mockRejectedValueOnce(new Error('API error: 404 Not Found'));
+        const errors: Error[] = [];
+        daemon.on('error', (error: Error) => errors.push(error));
+
+        const started = new Promise((resolve) => daemon.once('playback-started', resolve));
+        player.emit('status', finished);
+
+        expect(await started).toEqual(expect.objectContaining({ bookId: 'book-3' }));
+        expect(errors.map((error) => error.message)).toEqual([
+          'Starting queued item missing failed: API error: 404 Not Found',
+        ]);
+      });
+
+      it('should clear the queue on stop and on a new play request', async () => {
+        const queue = [{ bookId: 'book-2' }];
+
+        await daemon.handleRequest({ command: 'play', bookId: 'book-1', device, queue });
+        const replaced = await daemon.handleRequest({ command: 'play', bookId: 'book-1', device });
+        expect(replaced.playback.queued).toBe(0);
+
+        await daemon.handleRequest({ command: 'play', bookId: 'book-1', device, queue });
+        const stopped = await daemon.handleRequest({ command: 'stop' });
+        expect(stopped.playback.queued).toBe(0);
+      });
+    });
+  });
+
+  describe('socket', () => {
+    it('should answer requests over the control socket', async () => {
+      await daemon.start();
+      const client = new DaemonClient({ socketPath: join(socketDir, 'daemon.sock') });
+
+      expect(await client.isRunning()).toBe(true);
+
+      const status = await client.send({ command: 'play', bookId: 'book-1', device });
+      expect(status.playback.bookId).toBe('book-1');
+    });
+
+    it('should surface daemon errors to the client', async () => {
+      await daemon.start();
+      const client = new DaemonClient({ socketPath: join(socketDir, 'daemon.sock') });
+
+      await expect(client.send({ command: 'pause' })).rejects.toThrow(/no active playback/i);
+    });
+
+    it('should emit shutdown after answering a shutdown request', async () => {
+      await daemon.start();
+      const onShutdown = vi.fn();
+      daemon.on('shutdown', onShutdown);
+      const client = new DaemonClient({ socketPath: join(socketDir, 'daemon.sock') });
+
+      await client.send({ command: 'shutdown' });
+      await vi.waitFor(() => {
+        expect(onShutdown).toHaveBeenCalled();
+      });
+    });
+
+    it('should refuse to start when another daemon is listening', async () => {
+      await daemon.start();
+      const second = new PlaybackDaemon({
+        absClient: absClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['absClient'],
+        castClient: castClient as unknown as ConstructorParameters<typeof PlaybackDaemon>[0]['castClient'],
+        socketPath: join(socketDir, 'daemon.sock'),
+        proxyUrl: 'http://192.168.1.10:8765',
+        streamSecret: STREAM_SECRET,
+      });
+
+      await expect(second.start()).rejects.toThrow(/already running/i);
+    });
+  });
+});
+
+describe('DaemonClient', () => {
+  it('should report a missing daemon', async () => {
+    const client = new DaemonClient({ socketPath: join(tmpdir(), 'abs-missing', 'daemon.sock') });
+
+    expect(await client.isRunning()).toBe(false);
+    await expect(client.send({ command: 'status' })).rejects.toBeInstanceOf(DaemonNotRunningError);
+  });
+});
+
+describe('parseRequest', () => {
+  it('should parse a valid play request', () => {
+    const request = parseRequest(
+      JSON.stringify({ command: 'play', bookId: 'book-1', device: { name: 'x', host: 'h', port: 8009 } })
+    );
+    expect(request.command).toBe('play');
+  });
+
+  it('should reject unknown commands', () => {
+    expect(() => parseRequest(JSON.stringify({ command: 'explode' }))).toThrow(/unknown daemon command/i);
+  });
+
+  it('should reject play without a device', () => {
+    expect(() => parseRequest(JSON.stringify({ command: 'play', bookId: 'book-1' }))).toThrow(/device/);
+  });
+
+  it('should reject an empty episode id', () => {
+    expect(() =>
+      parseRequest(
+        JSON.stringify({ command: 'play', bookId: 'pod-1', episodeId: '', device: { host: 'h', port: 1 } })
+      )
+    ).toThrow('episodeId');
+  });
+
+  it('should reject a malformed queue', () => {
+    const play = { command: 'play', bookId: 'book-1', device: { host: 'h', port: 1 } };
+    expect(() => parseRequest(JSON.stringify({ ...play, queue: 'book-2' }))).toThrow('queue');
+    expect(() => parseRequest(JSON.stringify({ ...play, queue: [{ episodeId: 'ep-1' }] }))).toThrow(
+      'queue'
+    );
+    expect(parseRequest(JSON.stringify({ ...play, queue: [{ bookId: 'book-2' }] }))).toEqual(
+      expect.objectContaining({ queue: [{ bookId: 'book-2' }] })
+    );
+  });
+
+  it('should reject chapter goto without a number', () => {
+    expect(() => parseRequest(JSON.stringify({ command: 'chapter', action: 'goto' }))).toThrow(
+      /chapter number/
+    );
+  });
+
+  it('should reject non-positive sleep durations', () => {
+    expect(() =>
+      parseRequest(JSON.stringify({ command: 'sleep', minutes: 0 }))
+    ).toThrow(/minutes/);
+  });
+
+  it('should reject speeds out of range', () => {
+    expect(() => parseRequest('{"command":"speed","speed":4}')).toThrow(/between 0.5 and 3/);
+    expect(parseRequest('{"command":"speed","speed":1.5}')).toEqual({ command: 'speed', speed: 1.5 });
+  });
+
+  it('should reject seek without a valid target', () => {
+    expect(() =>
+      parseRequest(JSON.stringify({ command: 'seek', target: { type: 'relative' } }))
+    ).toThrow(/valid target/);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseRequest('not json')).toThrow();
+  });
+});
+
+describe('getSocketPath', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should honour ABS_DAEMON_SOCKET', () => {
+    process.env.ABS_DAEMON_SOCKET = '/tmp/custom.sock';
+    expect(getSocketPath()).toBe('/tmp/custom.sock');
+  });
+
+  it('should use XDG_RUNTIME_DIR when set', () => {
+    delete process.env.ABS_DAEMON_SOCKET;
+    delete process.env.ABS_PROFILE;
+    process.env.XDG_RUNTIME_DIR = '/run/user/1000';
+    expect(getSocketPath()).toBe('/run/user/1000/abs/daemon.sock');
+  });
+
+  it('should give each profile its own socket', () => {
+    delete process.env.ABS_DAEMON_SOCKET;
+    process.env.XDG_RUNTIME_DIR = '/run/user/1000';
+    expect(getSocketPath('alice')).toBe('/run/user/1000/abs/daemon-alice.sock');
+    expect(getSocketPath('bob')).toBe('/run/user/1000/abs/daemon-bob.sock');
+
+    process.env.ABS_PROFILE = 'work/home';
+    expect(getSocketPath()).toBe('/run/user/1000/abs/daemon-work%2Fhome.sock');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for HLS playlist building
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildHlsPlaylist,
+  getSegmentCount,
+  getSegmentFileName,
+  parseSegmentFileName,
+} from '../src/proxy/hls.js';
+
+describe('getSegmentFileName', () => {
+  it('should round-trip segment numbers', () => {
+    expect(getSegmentFileName(12)).toBe('segment-12.ts');
+    expect(parseSegmentFileName('segment-12.ts')).toBe(12);
+  });
+
+  it('should reject other file names', () => {
+    expect(parseSegmentFileName('playlist.m3u8')).toBeNull();
+    expect(parseSegmentFileName('segment-1.ts.tmp')).toBeNull();
+    expect(parseSegmentFileName('../segment-1.ts')).toBeNull();
+  });
+});
+
+describe('getSegmentCount', () => {
+  it('should cover a partial last segment', () => {
+    expect(getSegmentCount(12, 6)).toBe(2);
+    expect(getSegmentCount(13, 6)).toBe(3);
+    expect(getSegmentCount(0, 6)).toBe(0);
+  });
+});
+
+describe('buildHlsPlaylist', () => {
+  it('should list every segment with its duration', () => {
+    const playlist = buildHlsPlaylist(14.5, (index) => `segment-${String(index)}.ts?token=t`, 6);
+
+    expect(playlist.split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      '#EXT-X-TARGETDURATION:6',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      '#EXTINF:6.000,',
+      'segment-0.ts?token=t',
+      '#EXTINF:6.000,',
+      'segment-1.ts?token=t',
+      '#EXTINF:2.500,',
+      'segment-2.ts?token=t',
+      '#EXT-X-ENDLIST',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for library listing filters
+ */
+import { describe, it, expect } from 'vitest';
+import { encodeItemFilter, parseItemFilter } from '../src/lib/listing.js';
+
+describe('parseItemFilter', () => {
+  it('should map kinds to server filter groups', () => {
+    expect(parseItemFilter('author:Brandon Sanderson')).toEqual({
+      group: 'authors',
+      value: 'Brandon Sanderson',
+    });
+    expect(parseItemFilter('genre:Fantasy')).toEqual({ group: 'genres', value: 'Fantasy' });
+    expect(parseItemFilter('Narrator: Ray Porter')).toEqual({
+      group: 'narrators',
+      value: 'Ray Porter',
+    });
+  });
+
+  it('should keep colons in the value', () => {
+    expect(parseItemFilter('series:Dune: Prelude')).toEqual({
+      group: 'series',
+      value: 'Dune: Prelude',
+    });
+  });
+
+  it('should accept known progress values only', () => {
+    expect(parseItemFilter('progress:finished')).toEqual({ group: 'progress', value: 'finished' });
+    expect(parseItemFilter('progress:halfway')).toBeNull();
+  });
+
+  it('should reject unknown kinds and empty values', () => {
+    expect(parseItemFilter('publisher:Tor')).toBeNull();
+    expect(parseItemFilter('author:')).toBeNull();
+    expect(parseItemFilter('Sanderson')).toBeNull();
+  });
+
+  it('should reject inherited object keys as kinds', () => {
+    expect(parseItemFilter('toString:x')).toBeNull();
+    expect(parseItemFilter('constructor:x')).toBeNull();
+  });
+});
+
+describe('encodeItemFilter', () => {
+  it('should base64-encode the value', () => {
+    expect(encodeItemFilter({ group: 'tags', value: 'favourites' })).toBe(
+      `tags.${Buffer.from('favourites').toString('base64')}`
+    );
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for title matching
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  AmbiguousMatchError,
+  NoMatchError,
+  looksLikeItemId,
+  rankBooks,
+  selectBook,
+} from '../src/lib/match.js';
+import type { Book } from '../src/lib/types.js';
+
+function book(id: string, title: string): Book {
+  return { id, libraryId: 'lib-1', title, author: 'Author', duration: 3600 };
+}
+
+describe('looksLikeItemId', () => {
+  it('should accept UUIDs', () => {
+    expect(looksLikeItemId('e5b1c0d2-3f4a-4b5c-8d9e-0f1a2b3c4d5e')).toBe(true);
+  });
+
+  it('should accept legacy li_ IDs', () => {
+    expect(looksLikeItemId('li_8gch9ve09orgn4fdz8')).toBe(true);
+  });
+
+  it('should reject titles', () => {
+    expect(looksLikeItemId('project hail mary')).toBe(false);
+    expect(looksLikeItemId('Dune')).toBe(false);
+  });
+});
+
+describe('rankBooks', () => {
+  it('should order exact, prefix, contains, then other', () => {
+    const ranked = rankBooks('dune', [
+      book('1', 'Children of Dune'),
+      book('2', 'Something Else'),
+      book('3', 'Dune Messiah'),
+      book('4', 'Dune'),
+    ]);
+    expect(ranked.map((r) => r.quality)).toEqual(['exact', 'prefix', 'contains', 'other']);
+    expect(ranked.map((r) => r.book.id)).toEqual(['4', '3', '1', '2']);
+  });
+
+  it('should ignore case and punctuation', () => {
+    const [ranked] = rankBooks('project hail mary', [book('1', 'Project Hail Mary!')]);
+    expect(ranked.quality).toBe('exact');
+  });
+});
+
+describe('selectBook', () => {
+  it('should pick a single result', () => {
+    expect(selectBook('hail mary', [book('1', 'Project Hail Mary')]).id).toBe('1');
+  });
+
+  it('should pick a unique exact match among several results', () => {
+    const books = [book('1', 'Dune Messiah'), book('2', 'Dune')];
+    expect(selectBook('Dune', books).id).toBe('2');
+  });
+
+  it('should throw AmbiguousMatchError with ranked candidates', () => {
+    const books = [book('1', 'Children of Dune'), book('2', 'Dune Messiah')];
+    try {
+      selectBook('dune', books);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AmbiguousMatchError);
+      expect((error as AmbiguousMatchError).candidates.map((c) => c.book.id)).toEqual(['2', '1']);
+    }
+  });
+
+  it('should pick the best candidate with first', () => {
+    const books = [book('1', 'Children of Dune'), book('2', 'Dune Messiah')];
+    expect(selectBook('dune', books, { first: true }).id).toBe('2');
+  });
+
+  it('should throw NoMatchError without results', () => {
+    expect(() => selectBook('nothing', [])).toThrow(NoMatchError);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for proxy output formats
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getContentType,
+  getDefaultBitrate,
+  getEncoderArgs,
+  isOutputFormat,
+} from '../src/proxy/output-format.js';
+
+describe('getEncoderArgs', () => {
+  it('should encode MP3 at 192k by default', () => {
+    expect(getEncoderArgs('mp3')).toEqual(['-acodec', 'libmp3lame', '-b:a', '192k', '-f', 'mp3']);
+  });
+
+  it('should put Opus in Ogg with a custom bitrate', () => {
+    expect(getEncoderArgs('opus', '32k')).toEqual(['-acodec', 'libopus', '-b:a', '32k', '-f', 'ogg']);
+  });
+
+  it('should ignore bitrates for lossless formats', () => {
+    expect(getEncoderArgs('flac', '320k')).toEqual(['-acodec', 'flac', '-f', 'flac']);
+    expect(getEncoderArgs('wav')).toEqual(['-acodec', 'pcm_s16le', '-f', 'wav']);
+  });
+});
+
+describe('format details', () => {
+  it('should report MIME types', () => {
+    expect(getContentType('mp3')).toBe('audio/mpeg');
+    expect(getContentType('aac')).toBe('audio/aac');
+    expect(getContentType('opus')).toBe('audio/ogg; codecs=opus');
+  });
+
+  it('should use per-format bitrates', () => {
+    expect(getDefaultBitrate('aac')).toBe('128k');
+    expect(getDefaultBitrate('opus')).toBe('64k');
+    expect(getDefaultBitrate('wav')).toBeUndefined();
+  });
+
+  it('should recognise supported formats', () => {
+    expect(isOutputFormat('flac')).toBe(true);
+    expect(isOutputFormat('ogg')).toBe(false);
+    expect(isOutputFormat(undefined)).toBe(false);
+  });
+});
@@ -100,7 +100,7 @@ describe('PositionTracker', () => {
       await vi.advanceTimersByTimeAsync(10000);
       await vi.advanceTimersByTimeAsync(10);
 
-      expect(onSync).toHaveBeenCalledWith(120);
+      expect(onSync).toHaveBeenCalledWith(120, 0);
     });
 
     it('should respect position threshold', async () => {
@@ -142,7 +142,7 @@ describe('PositionTracker', () => {
 
       await vi.advanceTimersByTimeAsync(10);
 
-      expect(onSync).toHaveBeenCalledWith(300);
+      expect(onSync).toHaveBeenCalledWith(300, 0);
     });
   });
 
@@ -296,4 +296,52 @@ describe('PositionTracker', () => {
       expect(onError).toHaveBeenCalledWith(500);
     });
   });
+
+  describe('listened time', () => {
+    it('should report time spent playing with each sync, excluding pauses', async () => {
+      const { PositionTracker } = await getModule();
+      const onSync = vi.fn().mockResolvedValue(undefined);
+      const tracker = new PositionTracker(mockPlayerInstance as never, onSync, {
+        pollIntervalMs: 600000,
+      });
+
+      tracker.start();
+      mockPlayerInstance.emit('status', { currentTime: 10, playerState: 'PLAYING' });
+      expect(onSync).toHaveBeenLastCalledWith(10, 0);
+
+      await vi.advanceTimersByTimeAsync(30000);
+      mockPlayerInstance.emit('status', { currentTime: 40, playerState: 'PAUSED' });
+      await vi.advanceTimersByTimeAsync(60000);
+      mockPlayerInstance.emit('status', { currentTime: 40, playerState: 'BUFFERING' });
+      await vi.advanceTimersByTimeAsync(5000);
+      mockPlayerInstance.emit('status', { currentTime: 40, playerState: 'PLAYING' });
+      await vi.advanceTimersByTimeAsync(15000);
+      mockPlayerInstance.emit('status', { currentTime: 55, playerState: 'PLAYING' });
+
+      // 30s before the pause, then 15s after it; the pause and buffering are excluded
+      expect(onSync.mock.calls).toEqual([
+        [10, 0],
+        [40, 30],
+        [55, 15],
+      ]);
+      tracker.stop();
+    });
+
+    it('should include the last playing interval after stop', async () => {
+      const { PositionTracker } = await getModule();
+      const tracker = new PositionTracker(mockPlayerInstance as never, vi.fn(), {
+        pollIntervalMs: 600000,
+      });
+
+      tracker.start();
+      mockPlayerInstance.emit('status', { currentTime: 10, playerState: 'PLAYING' });
+      tracker.takeListenedTime();
+      await vi.advanceTimersByTimeAsync(5000);
+      tracker.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(tracker.takeListenedTime()).toBe(5);
+      expect(tracker.takeListenedTime()).toBe(0);
+    });
+  });
 });
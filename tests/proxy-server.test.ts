@@ -0,0 +1,565 @@
+/**
+ * Tests for proxy server authorisation and range requests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  get,
+  request as httpRequest,
+  type IncomingHttpHeaders,
+  type OutgoingHttpHeaders,
+} from 'http';
+import { createServer } from 'net';
+import { existsSync } from 'fs';
+import { ProxyServer } from '../src/proxy/server.js';
+import { createStreamToken } from '../src/proxy/stream-token.js';
+import type { Readable } from 'stream';
+import type * as audioPipeline from '../src/proxy/audio-pipeline.js';
+import type { AudioPipelineOptions } from '../src/proxy/audio-pipeline.js';
+
+/**
+ * Pipeline stand-in that emits fixed bytes instead of running ffmpeg
+ */
+interface FakePipeline {
+  options: AudioPipelineOptions;
+  stop: ReturnType<typeof vi.fn>;
+  setEncodeLimit: ReturnType<typeof vi.fn>;
+  isRunning: () => boolean;
+  getSpeed: () => number;
+  getOutputStream: () => Readable;
+}
+
+const pipelines: FakePipeline[] = [];
+
+vi.mock('../src/proxy/audio-pipeline.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof audioPipeline>();
+  const { PassThrough } = await import('stream');
+  const { writeFileSync } = await import('fs');
+  const path = await import('path');
+
+  class AudioPipeline {
+    private readonly output = new PassThrough();
+    private volume: number;
+    private speed: number;
+    readonly stop = vi.fn(() => {
+      this.output.end();
+    });
+
+    constructor(readonly options: AudioPipelineOptions) {
+      this.volume = options.initialVolume ?? 1;
+      this.speed = options.initialSpeed ?? 1;
+      pipelines.push(this);
+    }
+
+    readonly setEncodeLimit = vi.fn();
+
+    start(): void {
+      const hls = this.options.hls;
+      if (hls) {
+        // Encode the first segment straight away
+        const segment = (this.options.startPosition ?? 0) / 6;
+        writeFileSync(path.join(hls.directory, `segment-${String(segment)}.ts`), 'segment-data');
+        return;
+      }
+      this.output.write(Buffer.alloc(32, 1));
+    }
+
+    isRunning(): boolean {
+      return true;
+    }
+
+    getCurrentPosition(): number {
+      return this.options.startPosition ?? 0;
+    }
+
+    getOutputStream(): Readable {
+      return this.output;
+    }
+
+    setVolume(volume: number): void {
+      this.volume = volume;
+    }
+
+    getVolume(): number {
+      return this.volume;
+    }
+
+    setSpeed(speed: number): void {
+      this.speed = speed;
+    }
+
+    getSpeed(): number {
+      return this.speed;
+    }
+  }
+
+  return { ...actual, AudioPipeline };
+});
+
+const STREAM_SECRET = 'test-secret';
+
+/** 192 kbps output */
+const BYTES_PER_SECOND = 24000;
+
+/**
+ * Find a free local port
+ */
+async function getFreePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = createServer();
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      probe.close(() => {
+        resolve(typeof address === 'object' && address ? address.port : 0);
+      });
+    });
+  });
+}
+
+/**
+ * GET a path from the proxy
+ */
+async function request(
+  port: number,
+  path: string,
+  headers: OutgoingHttpHeaders = {}
+): Promise<{ status: number; body: string; headers: IncomingHttpHeaders }> {
+  return new Promise((resolve, reject) => {
+    get({ host: '127.0.0.1', port, path, headers }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => {
+        body += String(chunk);
+      });
+      res.on('end', () => {
+        resolve({ status: res.statusCode ?? 0, body, headers: res.headers });
+      });
+    }).on('error', reject);
+  });
+}
+
+/**
+ * POST a JSON body to the proxy
+ */
+async function post(port: number, path: string, body: unknown): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest({ host: '127.0.0.1', port, path, method: 'POST' }, (res) => {
+      let text = '';
+      res.on('data', (chunk) => {
+        text += String(chunk);
+      });
+      res.on('end', () => {
+        resolve({ status: res.statusCode ?? 0, body: text });
+      });
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+function token(bookId: string, expiresAt = Date.now() + 60000): string {
+  return encodeURIComponent(createStreamToken({ bookId, expiresAt }, STREAM_SECRET));
+}
+
+describe('ProxyServer', () => {
+  const mockFetch = vi.fn();
+  let server: ProxyServer;
+  let port: number;
+
+  beforeEach(async () => {
+    vi.stubGlobal('fetch', mockFetch);
+    port = await getFreePort();
+    server = new ProxyServer({
+      port,
+      host: '127.0.0.1',
+      audiobookshelfUrl: 'https://abs.example.com',
+      audiobookshelfToken: 'abs-token',
+      streamSecret: STREAM_SECRET,
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.unstubAllGlobals();
+    mockFetch.mockReset();
+    pipelines.length = 0;
+  });
+
+  describe('stream authorisation', () => {
+    it('should reject unsigned stream requests', async () => {
+      const response = await request(port, '/stream/book-1');
+
+      expect(response.status).toBe(401);
+      expect(server.getAllSessions()).toHaveLength(0);
+    });
+
+    it('should reject tokens issued for another item', async () => {
+      const response = await request(port, `/stream/book-1?token=${token('book-2')}`);
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject expired tokens', async () => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1', Date.now() - 1)}`);
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject unsigned cover requests', async () => {
+      const response = await request(port, '/cover/book-1');
+
+      expect(response.status).toBe(401);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('range requests', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              id: 'book-1',
+              libraryId: 'lib-1',
+              media: {
+                metadata: { title: 'Book' },
+                duration: 100,
+                tracks: [{ index: 1, startOffset: 0, duration: 100, contentUrl: '/s/book-1/track.mp3' }],
+              },
+            })
+          )
+        )
+      );
+    });
+
+    it('should answer a range with partial content from the matching time offset', async () => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1')}`, {
+        Range: `bytes=${String(BYTES_PER_SECOND * 10)}-${String(BYTES_PER_SECOND * 10 + 9)}`,
+      });
+
+      expect(response.status).toBe(206);
+      expect(response.body).toHaveLength(10);
+      expect(response.headers['accept-ranges']).toBe('bytes');
+      expect(response.headers['content-length']).toBe('10');
+      expect(response.headers['content-range']).toBe(
+        `bytes 240000-240009/${String(BYTES_PER_SECOND * 100)}`
+      );
+      expect(pipelines[0].options.startPosition).toBe(10);
+      expect(pipelines[0].options.tracks).toEqual([
+        { url: 'https://abs.example.com/s/book-1/track.mp3', startOffset: 0 },
+      ]);
+    });
+
+    it('should reject unsatisfiable ranges', async () => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1')}`, {
+        Range: `bytes=${String(BYTES_PER_SECOND * 100)}-`,
+      });
+
+      expect(response.status).toBe(416);
+      expect(response.headers['content-range']).toBe(`bytes */${String(BYTES_PER_SECOND * 100)}`);
+      expect(pipelines).toHaveLength(0);
+    });
+
+    it('should stream other formats without range support', async () => {
+      const pending = request(port, `/stream/book-1?token=${token('book-1')}&format=opus`, {
+        Range: 'bytes=0-9',
+      });
+      await vi.waitFor(() => {
+        expect(pipelines).toHaveLength(1);
+      });
+      pipelines[0].stop();
+      const response = await pending;
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('audio/ogg; codecs=opus');
+      expect(response.headers['accept-ranges']).toBeUndefined();
+      expect(response.body).toHaveLength(32);
+      expect(pipelines[0].options.outputFormat).toBe('opus');
+    });
+
+    it.each(['abc', '-5', 'Infinity', ''])('should reject the start position %j', async (start) => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1')}&start=${start}`);
+
+      expect(response.status).toBe(400);
+      expect(pipelines).toHaveLength(0);
+    });
+
+    it('should reject unsupported formats', async () => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1')}&format=ogg`);
+
+      expect(response.status).toBe(400);
+      expect(pipelines).toHaveLength(0);
+    });
+
+    it('should keep the session and its volume across seeks', async () => {
+      const streamToken = token('book-1');
+      const first = await request(port, `/stream/book-1?token=${streamToken}`, {
+        Range: 'bytes=0-9',
+      });
+      const sessionId = String(first.headers['x-session-id']);
+      server.setSessionVolume(sessionId, 0.4);
+
+      const second = await request(port, `/stream/book-1?token=${streamToken}`, {
+        Range: `bytes=${String(BYTES_PER_SECOND * 30)}-${String(BYTES_PER_SECOND * 30 + 9)}`,
+      });
+
+      expect(second.headers['x-session-id']).toBe(sessionId);
+      expect(server.getAllSessions()).toHaveLength(1);
+      expect(pipelines[1].options).toMatchObject({ startPosition: 30, initialVolume: 0.4 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('speed', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              id: 'book-1',
+              libraryId: 'lib-1',
+              media: { metadata: { title: 'Book' }, duration: 100, tracks: [] },
+            })
+          )
+        )
+      );
+    });
+
+    it('should stream at a requested speed without a length', async () => {
+      const pending = request(port, `/stream/book-1?token=${token('book-1')}&speed=1.5`);
+      await vi.waitFor(() => {
+        expect(pipelines).toHaveLength(1);
+      });
+      pipelines[0].stop();
+      const response = await pending;
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-length']).toBeUndefined();
+      expect(response.headers['accept-ranges']).toBeUndefined();
+      expect(pipelines[0].options).toMatchObject({ initialSpeed: 1.5 });
+    });
+
+    it('should change the speed of a variable-speed stream', async () => {
+      const pending = request(port, `/stream/book-1?token=${token('book-1')}&speed=1`);
+      await vi.waitFor(() => {
+        expect(pipelines).toHaveLength(1);
+      });
+
+      const response = await post(port, `/speed/${server.getAllSessions()[0].id}`, { speed: 2 });
+      pipelines[0].stop();
+      await pending;
+
+      expect(response.status).toBe(200);
+      expect(pipelines[0].getSpeed()).toBe(2);
+    });
+
+    it('should keep fixed-length streams at normal speed', async () => {
+      const first = await request(port, `/stream/book-1?token=${token('book-1')}`, { Range: 'bytes=0-9' });
+      const sessionId = String(first.headers['x-session-id']);
+
+      const response = await post(port, `/speed/${sessionId}`, { speed: 2 });
+
+      expect(response.status).toBe(409);
+      expect(server.setSessionSpeed(sessionId, 2)).toBe(false);
+      expect(pipelines[0].getSpeed()).toBe(1);
+    });
+
+    it.each(['0.2', '4', 'fast'])('should reject a requested speed of %s', async (speed) => {
+      const response = await request(port, `/stream/book-1?token=${token('book-1')}&speed=${speed}`);
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject speeds out of range', async () => {
+      const response = await post(port, '/speed/unknown', { speed: 3.5 });
+      expect(response.status).toBe(400);
+    });
+
+    it('should report unknown sessions', async () => {
+      const response = await post(port, '/speed/unknown', { speed: 1.5 });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('HLS', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              id: 'book-1',
+              libraryId: 'lib-1',
+              media: { metadata: { title: 'Book' }, duration: 15, tracks: [] },
+            })
+          )
+        )
+      );
+    });
+
+    it('should serve a playlist of every segment and start encoding at the start position', async () => {
+      const streamToken = token('book-1');
+      const response = await request(port, `/hls/book-1/playlist.m3u8?token=${streamToken}&start=7`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/vnd.apple.mpegurl');
+      expect(response.body).toContain(`segment-2.ts?token=${streamToken}`);
+      expect(response.body).toContain('#EXT-X-ENDLIST');
+      expect(pipelines[0].options).toMatchObject({ startPosition: 6 });
+      expect(pipelines[0].options.hls?.directory).toBeDefined();
+    });
+
+    it('should serve encoded segments within the same session', async () => {
+      const streamToken = token('book-1');
+      const playlist = await request(port, `/hls/book-1/playlist.m3u8?token=${streamToken}`);
+      const segment = await request(port, `/hls/book-1/segment-0.ts?token=${streamToken}`);
+
+      expect(segment).toMatchObject({ status: 200, body: 'segment-data' });
+      expect(segment.headers['content-type']).toBe('video/mp2t');
+      expect(segment.headers['x-session-id']).toBe(playlist.headers['x-session-id']);
+      expect(pipelines[0].setEncodeLimit).toHaveBeenLastCalledWith(66);
+    });
+
+    it('should restart encoding at a segment far from the encoder', async () => {
+      const streamToken = token('book-1');
+      await request(port, `/hls/book-1/playlist.m3u8?token=${streamToken}`);
+      server.setSessionVolume(server.getAllSessions()[0].id, 0.3);
+
+      // Segment 2 is within reach, so pretend the encoder has stopped
+      vi.spyOn(pipelines[0], 'isRunning').mockReturnValue(false);
+      const segment = await request(port, `/hls/book-1/segment-2.ts?token=${streamToken}`);
+
+      expect(segment.status).toBe(200);
+      expect(pipelines[0].stop).toHaveBeenCalled();
+      expect(pipelines[1].options).toMatchObject({ startPosition: 12, initialVolume: 0.3 });
+    });
+
+    it('should reject segments past the end', async () => {
+      const response = await request(port, `/hls/book-1/segment-3.ts?token=${token('book-1')}`);
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an invalid start position', async () => {
+      const response = await request(port, `/hls/book-1/playlist.m3u8?token=${token('book-1')}&start=abc`);
+      expect(response.status).toBe(400);
+      expect(pipelines).toHaveLength(0);
+    });
+
+    it('should open one session for concurrent first requests', async () => {
+      const streamToken = token('book-1');
+      const [playlist, segment] = await Promise.all([
+        request(port, `/hls/book-1/playlist.m3u8?token=${streamToken}`),
+        request(port, `/hls/book-1/segment-0.ts?token=${streamToken}`),
+      ]);
+
+      expect(segment.headers['x-session-id']).toBe(playlist.headers['x-session-id']);
+      expect(server.getAllSessions()).toHaveLength(1);
+      expect(pipelines).toHaveLength(1);
+    });
+
+    it('should end the session and fail pending segments when the pipeline fails', async () => {
+      const streamToken = token('book-1');
+      await request(port, `/hls/book-1/playlist.m3u8?token=${streamToken}`);
+      const directory = pipelines[0].options.hls?.directory ?? '';
+      const ended = vi.fn();
+      server.on('session-ended', ended);
+
+      // Segment 1 is not encoded yet, so the request waits for the encoder
+      const pending = request(port, `/hls/book-1/segment-1.ts?token=${streamToken}`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      pipelines[0].getOutputStream().destroy(new Error('Decoder exited with code 1'));
+
+      expect((await pending).status).toBe(502);
+      expect(server.getAllSessions()).toHaveLength(0);
+      expect(ended).toHaveBeenCalledOnce();
+      await vi.waitFor(() => {
+        expect(existsSync(directory)).toBe(false);
+      });
+    });
+  });
+
+  describe('covers', () => {
+    it('should fetch the cover with the server token', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('image-bytes', { headers: { 'Content-Type': 'image/webp' } })
+      );
+
+      const response = await request(port, `/cover/book-1?width=800&token=${token('book-1')}`);
+
+      expect(response).toMatchObject({ status: 200, body: 'image-bytes' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/items/book-1/cover?width=800',
+        { headers: { Authorization: 'Bearer abs-token' } }
+      );
+    });
+
+    it('should forward valid size and format options', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('image-bytes'))
+        .mockResolvedValueOnce(new Response('image-bytes'));
+
+      await request(
+        port,
+        `/cover/book-1?width=400&height=-1&format=webp&token=${token('book-1')}`
+      );
+      await request(port, `/cover/book-1?width=abc&height=300&format=gif&token=${token('book-1')}`);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://abs.example.com/api/items/book-1/cover?width=400&format=webp',
+        expect.anything()
+      );
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://abs.example.com/api/items/book-1/cover?height=300',
+        expect.anything()
+      );
+    });
+
+    it('should report missing covers', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('Not found', { status: 404 }));
+
+      const response = await request(port, `/cover/book-1?token=${token('book-1')}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should refresh an expired server token and retry', async () => {
+      await server.stop();
+      const onTokenRefresh = vi.fn();
+      server = new ProxyServer({
+        port,
+        host: '127.0.0.1',
+        audiobookshelfUrl: 'https://abs.example.com',
+        audiobookshelfToken: 'abs-token',
+        audiobookshelfRefreshToken: 'refresh-token',
+        onTokenRefresh,
+        streamSecret: STREAM_SECRET,
+      });
+      await server.start();
+      mockFetch
+        .mockResolvedValueOnce(new Response('Unauthorized', { status: 401 }))
+        .mockResolvedValueOnce(
+          Response.json({ user: { accessToken: 'new-token', refreshToken: 'new-refresh' } })
+        )
+        .mockResolvedValueOnce(new Response('image-bytes'));
+
+      const response = await request(port, `/cover/book-1?token=${token('book-1')}`);
+
+      expect(response).toMatchObject({ status: 200, body: 'image-bytes' });
+      expect(mockFetch).toHaveBeenLastCalledWith('https://abs.example.com/api/items/book-1/cover', {
+        headers: { Authorization: 'Bearer new-token' },
+      });
+      expect(onTokenRefresh).toHaveBeenCalledWith({ token: 'new-token', refreshToken: 'new-refresh' });
+    });
+  });
+
+  describe('getServerUrl', () => {
+    it('should prefer the configured public URL', () => {
+      const proxied = new ProxyServer({
+        publicUrl: 'https://cast.example.com/',
+        audiobookshelfUrl: 'https://abs.example.com',
+        audiobookshelfToken: 'abs-token',
+        streamSecret: STREAM_SECRET,
+      });
+      expect(proxied.getServerUrl()).toBe('https://cast.example.com');
+    });
+
+    it('should use an explicit host', () => {
+      expect(server.getServerUrl()).toBe(`http://127.0.0.1:${String(port)}`);
+    });
+  });
+});
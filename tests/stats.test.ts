@@ -0,0 +1,117 @@
+/**
+ * Tests for listening stats summaries
+ */
+import { describe, it, expect } from 'vitest';
+import { getPeriodStart, summariseListening, toDateKey } from '../src/lib/stats.js';
+import type { ListeningSession, ListeningStats } from '../src/lib/types.js';
+
+const NOW = new Date(2024, 2, 10, 15, 30);
+
+function session(overrides: Partial<ListeningSession>): ListeningSession {
+  return {
+    id: 'session-1',
+    bookId: 'book-1',
+    title: 'Dune',
+    author: 'Frank Herbert',
+    timeListened: 600,
+    currentTime: 1200,
+    duration: 36000,
+    startedAt: NOW.getTime(),
+    updatedAt: NOW.getTime(),
+    ...overrides,
+  };
+}
+
+function stats(days: Record<string, number>): ListeningStats {
+  return { totalTime: 100000, today: days['2024-03-10'] ?? 0, days, items: [] };
+}
+
+describe('toDateKey', () => {
+  it('should format local dates as YYYY-MM-DD', () => {
+    expect(toDateKey(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('should start a week six days before today at midnight', () => {
+    expect(getPeriodStart('week', NOW)).toEqual(new Date(2024, 2, 4));
+  });
+
+  it('should cross month boundaries', () => {
+    expect(toDateKey(getPeriodStart('month', NOW))).toBe('2024-02-10');
+  });
+});
+
+describe('summariseListening', () => {
+  it('should break a week down per day', () => {
+    const summary = summariseListening(
+      stats({ '2024-03-03': 999, '2024-03-04': 600, '2024-03-10': 300 }),
+      [],
+      'week',
+      NOW
+    );
+
+    expect(summary.since).toBe('2024-03-04');
+    expect(summary.breakdown).toHaveLength(7);
+    expect(summary.breakdown[0]).toEqual({ label: '2024-03-04', seconds: 600 });
+    expect(summary.breakdown[6]).toEqual({ label: '2024-03-10', seconds: 300 });
+    expect(summary.totalTime).toBe(900);
+    expect(summary.today).toBe(300);
+    expect(summary.allTime).toBe(100000);
+  });
+
+  it('should break a year down per month', () => {
+    const summary = summariseListening(
+      stats({ '2023-03-10': 100, '2023-12-01': 200, '2023-12-31': 300, '2024-03-01': 400 }),
+      [],
+      'year',
+      NOW
+    );
+
+    expect(summary.breakdown[0]).toEqual({ label: '2023-03', seconds: 0 });
+    expect(summary.breakdown).toContainEqual({ label: '2023-12', seconds: 500 });
+    expect(summary.breakdown[summary.breakdown.length - 1]).toEqual({
+      label: '2024-03',
+      seconds: 400,
+    });
+    expect(summary.totalTime).toBe(900);
+  });
+
+  it('should rank items by time listened during the period', () => {
+    const summary = summariseListening(
+      stats({}),
+      [
+        session({ id: 's1', timeListened: 600 }),
+        session({ id: 's2', bookId: 'book-2', title: 'Hyperion', timeListened: 900 }),
+        session({ id: 's3', timeListened: 600 }),
+        session({ id: 's4', bookId: 'book-3', startedAt: new Date(2024, 1, 1).getTime() }),
+      ],
+      'week',
+      NOW
+    );
+
+    expect(summary.topItems).toEqual([
+      { bookId: 'book-1', title: 'Dune', author: 'Frank Herbert', timeListened: 1200 },
+      { bookId: 'book-2', title: 'Hyperion', author: 'Frank Herbert', timeListened: 900 },
+    ]);
+  });
+
+  it('should rank podcast episodes separately', () => {
+    const summary = summariseListening(
+      stats({}),
+      [
+        session({ id: 's1', bookId: 'pod-1', episodeId: 'ep-1', title: 'Episode 1' }),
+        session({ id: 's2', bookId: 'pod-1', episodeId: 'ep-2', title: 'Episode 2' }),
+      ],
+      'week',
+      NOW
+    );
+
+    expect(summary.topItems.map((item) => item.title)).toEqual(['Episode 1', 'Episode 2']);
+  });
+
+  it('should limit the number of top items', () => {
+    const sessions = ['a', 'b', 'c'].map((id) => session({ id, bookId: id }));
+    expect(summariseListening(stats({}), sessions, 'week', NOW, 2).topItems).toHaveLength(2);
+  });
+});
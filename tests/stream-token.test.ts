@@ -0,0 +1,48 @@
+/**
+ * Tests for signed proxy stream tokens
+ */
+import { describe, it, expect } from 'vitest';
+import { createStreamToken, verifyStreamToken } from '../src/proxy/stream-token.js';
+
+const SECRET = 'test-secret';
+const NOW = 1700000000000;
+
+describe('stream tokens', () => {
+  it('should round-trip claims', () => {
+    const claims = { bookId: 'pod-1', episodeId: 'ep-2', expiresAt: NOW + 60000 };
+    const token = createStreamToken(claims, SECRET);
+
+    expect(verifyStreamToken(token, SECRET, NOW)).toEqual(claims);
+  });
+
+  it('should be URL-safe', () => {
+    const token = createStreamToken({ bookId: 'book-1', expiresAt: NOW + 60000 }, SECRET);
+    expect(encodeURIComponent(token)).toBe(token);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createStreamToken({ bookId: 'book-1', expiresAt: NOW }, SECRET);
+    expect(verifyStreamToken(token, SECRET, NOW)).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = createStreamToken({ bookId: 'book-1', expiresAt: NOW + 60000 }, 'other');
+    expect(verifyStreamToken(token, SECRET, NOW)).toBeNull();
+  });
+
+  it('should reject tampered claims', () => {
+    const token = createStreamToken({ bookId: 'book-1', expiresAt: NOW + 60000 }, SECRET);
+    const signature = token.split('.')[1];
+    const forged = Buffer.from(
+      JSON.stringify({ bookId: 'book-2', expiresAt: NOW + 60000 })
+    ).toString('base64url');
+
+    expect(verifyStreamToken(`${forged}.${signature}`, SECRET, NOW)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyStreamToken('', SECRET, NOW)).toBeNull();
+    expect(verifyStreamToken('abc', SECRET, NOW)).toBeNull();
+    expect(verifyStreamToken('a.b.c', SECRET, NOW)).toBeNull();
+  });
+});
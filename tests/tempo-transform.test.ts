@@ -0,0 +1,98 @@
+/**
+ * Tests for TempoTransform
+ */
+import { describe, it, expect } from 'vitest';
+import { TempoTransform } from '../src/proxy/tempo-transform.js';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Mono 16-bit PCM sine wave
+ */
+function sine(frequency: number, seconds: number): Buffer {
+  const frames = Math.round(SAMPLE_RATE * seconds);
+  const pcm = Buffer.alloc(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    pcm.writeInt16LE(Math.round(10000 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)), i * 2);
+  }
+  return pcm;
+}
+
+/**
+ * Run PCM through a transform and collect the output
+ */
+async function run(transform: TempoTransform, input: Buffer, chunkSize = 1000): Promise<Buffer> {
+  const output: Buffer[] = [];
+  transform.on('data', (chunk: Buffer) => {
+    output.push(chunk);
+  });
+  const ended = new Promise((resolve) => transform.on('end', resolve));
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    transform.write(input.subarray(offset, offset + chunkSize));
+  }
+  transform.end();
+  await ended;
+  return Buffer.concat(output);
+}
+
+/**
+ * Count upward zero crossings per second (the frequency of a sine)
+ */
+function frequencyOf(pcm: Buffer): number {
+  let crossings = 0;
+  for (let i = 2; i < pcm.length; i += 2) {
+    if (pcm.readInt16LE(i - 2) < 0 && pcm.readInt16LE(i) >= 0) {
+      crossings++;
+    }
+  }
+  return crossings / (pcm.length / 2 / SAMPLE_RATE);
+}
+
+describe('TempoTransform', () => {
+  it('should pass audio through untouched at normal speed', async () => {
+    const input = sine(440, 0.5);
+    const output = await run(new TempoTransform({ sampleRate: SAMPLE_RATE, channels: 1 }), input, 333);
+
+    expect(output).toEqual(input);
+  });
+
+  it('should clamp speed to 0.5 - 3.0', () => {
+    const transform = new TempoTransform({ initialSpeed: 5 });
+    expect(transform.speed).toBe(3);
+    transform.setSpeed(0.1);
+    expect(transform.speed).toBe(0.5);
+  });
+
+  it.each([
+    [2, 1],
+    [1.5, 4 / 3],
+    [0.5, 4],
+  ])('should change duration but not pitch at %sx', async (speed, expectedSeconds) => {
+    const transform = new TempoTransform({ initialSpeed: speed, sampleRate: SAMPLE_RATE, channels: 1 });
+    const output = await run(transform, sine(440, 2));
+
+    const seconds = output.length / 2 / SAMPLE_RATE;
+    expect(seconds).toBeGreaterThan(expectedSeconds * 0.9);
+    expect(seconds).toBeLessThan(expectedSeconds * 1.1);
+    expect(frequencyOf(output)).toBeGreaterThan(420);
+    expect(frequencyOf(output)).toBeLessThan(460);
+  });
+
+  it('should map output time back to input time across speed changes', async () => {
+    const transform = new TempoTransform({ sampleRate: SAMPLE_RATE, channels: 1 });
+    const output: Buffer[] = [];
+    transform.on('data', (chunk: Buffer) => {
+      output.push(chunk);
+    });
+
+    // One second at normal speed, then double speed
+    transform.write(sine(440, 1));
+    transform.setSpeed(2);
+    transform.write(sine(440, 1));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(transform.toInputTime(0.5)).toBe(0.5);
+    expect(transform.toInputTime(1)).toBe(1);
+    expect(transform.toInputTime(1.25)).toBe(1.5);
+  });
+});
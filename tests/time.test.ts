@@ -0,0 +1,115 @@
+/**
+ * Tests for seek grammar and time formatting
+ */
+import { describe, it, expect } from 'vitest';
+import { parseSeekTarget, resolveSeekTarget, formatTime, formatDuration } from '../src/lib/time.js';
+
+describe('parseSeekTarget', () => {
+  describe('relative', () => {
+    it('should parse "+30s"', () => {
+      expect(parseSeekTarget('+30s')).toEqual({ type: 'relative', seconds: 30 });
+    });
+
+    it('should parse "-1m"', () => {
+      expect(parseSeekTarget('-1m')).toEqual({ type: 'relative', seconds: -60 });
+    });
+
+    it('should parse compound durations', () => {
+      expect(parseSeekTarget('+1h30m')).toEqual({ type: 'relative', seconds: 5400 });
+      expect(parseSeekTarget('-1m30s')).toEqual({ type: 'relative', seconds: -90 });
+    });
+
+    it('should parse bare signed seconds', () => {
+      expect(parseSeekTarget('-90')).toEqual({ type: 'relative', seconds: -90 });
+    });
+
+    it('should parse signed clock times', () => {
+      expect(parseSeekTarget('+1:30')).toEqual({ type: 'relative', seconds: 90 });
+    });
+  });
+
+  describe('absolute', () => {
+    it('should parse "1:23:45"', () => {
+      expect(parseSeekTarget('1:23:45')).toEqual({ type: 'absolute', seconds: 5025 });
+    });
+
+    it('should parse "23:45"', () => {
+      expect(parseSeekTarget('23:45')).toEqual({ type: 'absolute', seconds: 1425 });
+    });
+
+    it('should parse unsigned durations', () => {
+      expect(parseSeekTarget('90')).toEqual({ type: 'absolute', seconds: 90 });
+      expect(parseSeekTarget('2h')).toEqual({ type: 'absolute', seconds: 7200 });
+    });
+
+    it('should be case-insensitive', () => {
+      expect(parseSeekTarget('+30S')).toEqual({ type: 'relative', seconds: 30 });
+    });
+  });
+
+  describe('percent', () => {
+    it('should parse "50%"', () => {
+      expect(parseSeekTarget('50%')).toEqual({ type: 'percent', percent: 50 });
+    });
+
+    it('should reject percentages over 100', () => {
+      expect(parseSeekTarget('150%')).toBeNull();
+    });
+  });
+
+  describe('invalid input', () => {
+    it.each(['', 'abc', '+', '%', '1:99', '30x', '+-5', '1:2:3:4'])('should reject "%s"', (input) => {
+      expect(parseSeekTarget(input)).toBeNull();
+    });
+  });
+});
+
+describe('resolveSeekTarget', () => {
+  it('should add relative offsets to the current position', () => {
+    expect(resolveSeekTarget({ type: 'relative', seconds: 30 }, 100, 3600)).toBe(130);
+  });
+
+  it('should clamp at the start of the book', () => {
+    expect(resolveSeekTarget({ type: 'relative', seconds: -60 }, 30, 3600)).toBe(0);
+  });
+
+  it('should clamp at the end of the book', () => {
+    expect(resolveSeekTarget({ type: 'absolute', seconds: 5000 }, 0, 3600)).toBe(3600);
+  });
+
+  it('should resolve percentages against the duration', () => {
+    expect(resolveSeekTarget({ type: 'percent', percent: 25 }, 0, 3600)).toBe(900);
+  });
+
+  it('should not clamp the upper bound when duration is unknown', () => {
+    expect(resolveSeekTarget({ type: 'absolute', seconds: 5000 }, 0, 0)).toBe(5000);
+  });
+});
+
+describe('formatTime', () => {
+  it('should format under an hour as m:ss', () => {
+    expect(formatTime(65)).toBe('1:05');
+  });
+
+  it('should format over an hour as h:mm:ss', () => {
+    expect(formatTime(5025)).toBe('1:23:45');
+  });
+
+  it('should clamp negative values to zero', () => {
+    expect(formatTime(-5)).toBe('0:00');
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format hours and minutes', () => {
+    expect(formatDuration(18720)).toBe('5h 12m');
+  });
+
+  it('should format minutes under an hour', () => {
+    expect(formatDuration(2530)).toBe('42m');
+  });
+
+  it('should format seconds under a minute', () => {
+    expect(formatDuration(30.7)).toBe('30s');
+  });
+});